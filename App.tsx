@@ -2,26 +2,62 @@ import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion';
 import { Sidebar } from './components/Sidebar';
 import { Reader } from './components/Reader';
-import { Language, LibraryItem, AppSettings } from './types';
+import { PresenterView } from './components/PresenterView';
+import { RemotePanel, RemotePairing } from './components/RemotePanel';
+import { ThemePanel } from './components/ThemePanel';
+import { BiblePanel } from './components/BiblePanel';
+import { Language, LibraryItem, AppSettings, ParseDiagnostic, ParseResult, SlidePosition, ComputedSlide, SlideStep, Theme } from './types';
 import { ContentService } from './services/contentService';
-import { Database, FileText, GripVertical, GripHorizontal, RefreshCw, Link as LinkIcon, AlertTriangle, ChevronUp, ChevronDown, Search, X } from 'lucide-react';
+import { InlineMarkup } from './services/inlineMarkup';
+import { CopticCalendar } from './services/copticCalendar';
+import { BibleService } from './services/bibleService';
+import { LegacyCoptic } from './services/legacyCoptic';
+import { Transliterator } from './services/transliteration';
+import { SearchService, SearchResult } from './services/searchService';
+import { DisplaySync } from './services/displaySync';
+import { RemoteControl, RemoteConnection, RemoteMessage } from './services/remoteControl';
+import { ThemeService } from './services/themeService';
+import { LANGUAGE_REGISTRY, PAGINATION_OPTIONS, getLanguageDef } from './constants';
+import { Database, FileText, GripVertical, GripHorizontal, RefreshCw, Link as LinkIcon, AlertTriangle, XCircle, ChevronUp, ChevronDown, Search, X, CalendarDays, Wand2, MonitorPlay, Smartphone, Palette } from 'lucide-react';
 
 const DEFAULT_DOC_ID = '1xPk-NpTnWxihZ0ZMLkXhvFDcE_HmjnfTU2y6cZXtl1c';
 
-interface SearchResult {
-  bookId: string;
-  sectionId: string;
-  partIndex: number;
+// The editor's syntax reference, one entry per directive or piece of markup
+const EDITOR_SYNTAX: { syntax: string; description: string }[] = [
+  { syntax: '# Category  ## Book  ### Section', description: 'Headings; @book under a book heading nests one level deeper' },
+  {
+    syntax: LANGUAGE_REGISTRY.map(l => `[${l.code}]`).join(' '),
+    description: `Language of the lines that follow; ${Object.keys(Transliterator.generators).map(code => `[${code}]`).join(' and ')} left out are transliterated from [${Language.COPTIC}]`
+  },
+  { syntax: '---', description: 'Starts the next part' },
+  { syntax: '@type hymn', description: 'Kind of the part' },
+  { syntax: '[EN-TITLE] Title', description: 'Title of the part, in any language' },
+  { syntax: 'P:  D:  C:', description: 'Speaker of the line: priest, deacon or people' },
+  { syntax: '~', description: 'An empty row' },
+  { syntax: '**bold**  {r:rubric}  {refrain:text}', description: 'Inline styles' },
+  { syntax: '\\[Text]', description: 'A leading backslash reads the line as text, not markup' },
+  { syntax: '@if season=kiahk … @else … @endif', description: 'Variants picked by date' },
+  { syntax: '@readings liturgy', description: "The day's Katameros readings" },
+  { syntax: '@scripture Ps 50:1-5', description: 'The verses themselves' },
+  { syntax: '@include book-id/section-id', description: 'Reuses content' },
+  { syntax: '@slides fill | row | part | 3', description: 'Under a section heading, how its parts are cut into slides' },
+  { syntax: '{#anchor}', description: 'After a heading or "---", a stable ID' }
+];
+
+// Consecutive results from the same section of the same book, shown under one heading
+interface SearchResultGroup {
+  key: string;
   bookTitle: string;
   sectionTitle: string;
-  textSnippet: string;
-  language: Language;
+  results: { result: SearchResult; index: number }[]; // index: position in the page, for keyboard navigation
 }
 
 const App: React.FC = () => {
   const [library, setLibrary] = useState<LibraryItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [isSyncing, setIsSyncing] = useState(false);
+  // Why text from outside the editor was not saved: it has parse errors
+  const [libraryError, setLibraryError] = useState<string | null>(null);
   const [selectedBookId, setSelectedBookId] = useState<string>('');
   const [targetSectionId, setTargetSectionId] = useState<string | null>(null);
   const [targetPartIndex, setTargetPartIndex] = useState<number | null>(null);
@@ -29,25 +65,38 @@ const App: React.FC = () => {
   const [editorContent, setEditorContent] = useState('');
   const [googleDocId, setGoogleDocId] = useState('');
   const [isOverflowing, setIsOverflowing] = useState(false);
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const [showAlignmentReport, setShowAlignmentReport] = useState(false);
+  const [isPresenterOpen, setIsPresenterOpen] = useState(false);
+  const [shownSlides, setShownSlides] = useState<{ current: ComputedSlide | null; next: ComputedSlide | null }>({ current: null, next: null });
+  const [blackout, setBlackout] = useState(false);
+  const [slideStep, setSlideStep] = useState<SlideStep | null>(null);
+  const [isRemotePanelOpen, setIsRemotePanelOpen] = useState(false);
+  const [remotePairing, setRemotePairing] = useState<RemotePairing | null>(null);
+  const remoteRef = useRef<RemoteConnection | null>(null);
+  const [isThemePanelOpen, setIsThemePanelOpen] = useState(false);
   
   // Global Search State
   const [globalSearchQuery, setGlobalSearchQuery] = useState('');
   const [isSearchExpanded, setIsSearchExpanded] = useState(false);
+  const [searchPageIndex, setSearchPageIndex] = useState(0);
+  const [activeResultIndex, setActiveResultIndex] = useState(0);
   const searchInputRef = useRef<HTMLInputElement>(null);
+  const searchResultsRef = useRef<HTMLDivElement>(null);
 
   const [settings, setSettings] = useState<AppSettings>({
     fontSize: 24,
-    languages: [
-      Language.ENGLISH, 
-      Language.COPTIC, 
-      Language.ARABIC, 
-      Language.TRANSLITERATED_ENGLISH, 
-      Language.TRANSLITERATED_ARABIC
-    ],
+    languages: LANGUAGE_REGISTRY.filter(l => l.defaultVisible).map(l => l.code),
+    liturgicalDate: null,
+    pagination: PAGINATION_OPTIONS[0].pagination,
     presentationMode: true,
-    isFullscreen: false
+    isFullscreen: false,
+    ...ThemeService.load()
   });
 
+  const [bibleStatus, setBibleStatus] = useState(() => BibleService.getStatus());
+
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [headerOpen, setHeaderOpen] = useState(false);
 
@@ -56,10 +105,18 @@ const App: React.FC = () => {
     setIsSyncing(true);
     try {
       const content = await ContentService.fetchGoogleDocContent(docId);
-      const newLibrary = ContentService.parseTextToLibrary(content);
+      const { library: newLibrary, diagnostics } = ContentService.parseText(content);
+      const errors = diagnostics.filter(d => d.severity === 'error').length;
+      if (errors > 0) {
+        // Held back like an editor save with errors; the editor shows them against the document's text
+        setLibraryError(`The Google Doc has ${errors} error${errors === 1 ? '' : 's'} and was not saved. Fix them in the document or here, then save.`);
+        setEditorContent(content);
+        return false;
+      }
       ContentService.saveLibrary(newLibrary, content, docId);
       setLibrary(newLibrary);
       setEditorContent(content);
+      setLibraryError(null);
       return true;
     } catch (err) {
       console.error(err);
@@ -84,19 +141,153 @@ const App: React.FC = () => {
         const data = await ContentService.getLibrary();
         const raw = ContentService.getRawText();
         setLibrary(data);
-        setEditorContent(raw || "");
+        // A document held back for its errors stays in the editor
+        setEditorContent(prev => prev || raw || ContentService.serializeLibraryToText(data));
       }
     } else {
       const data = await ContentService.getLibrary();
       const raw = ContentService.getRawText();
       setLibrary(data);
-      setEditorContent(raw || "");
+      setEditorContent(raw || ContentService.serializeLibraryToText(data));
     }
     setLoading(false);
   }, [syncFromGoogleDoc]);
 
   useEffect(() => { loadData(); }, [loadData]);
 
+  /**
+   * Parses the library again after the Bible texts change: @scripture verses are filled in
+   * while parsing, and @readings are expanded from the texts when paginating
+   */
+  const applyBibleTexts = useCallback(() => {
+    setBibleStatus(BibleService.getStatus());
+    const raw = ContentService.getRawText();
+    const parsed = raw ? ContentService.parseText(raw) : null;
+    const errors = parsed ? parsed.diagnostics.filter(d => d.severity === 'error').length : 0;
+    if (parsed && errors > 0) {
+      setLibraryError(`The saved text has ${errors} error${errors === 1 ? '' : 's'} with the new Bible texts, so the library was left as it was. Open the editor to see them.`);
+      setLibrary(prev => [...prev]);
+    } else if (parsed) {
+      ContentService.saveLibrary(parsed.library);
+      setLibrary(parsed.library);
+    } else {
+      setLibrary(prev => [...prev]);
+    }
+  }, []);
+
+  // Loaded alongside the library rather than before it, so slides show without waiting on the Bible
+  useEffect(() => { BibleService.load().then(applyBibleTexts); }, [applyBibleTexts]);
+
+  const importBibleFile = async (lang: Language, file: File) => {
+    await BibleService.importFile(lang, await file.text());
+    applyBibleTexts();
+  };
+
+  const removeBibleFile = async (lang: Language) => {
+    await BibleService.removeImported(lang);
+    applyBibleTexts();
+  };
+
+  // Where the operator is, as display windows look it up in their own pagination
+  const slidePosition = useMemo<SlidePosition | null>(() => {
+    const slide = shownSlides.current;
+    if (!slide) return null;
+    return {
+      sectionId: slide.sectionId,
+      partIndex: slide.partIndex,
+      partKey: slide.partKey,
+      subSlideIndex: slide.subSlideIndex,
+      firstRow: slide.firstRow,
+      isTitle: slide.type === 'title'
+    };
+  }, [shownSlides]);
+
+  const handleSlideChange = useCallback((current: ComputedSlide, next: ComputedSlide | null) => {
+    setShownSlides({ current, next });
+  }, []);
+
+  useEffect(() => {
+    ThemeService.apply(ThemeService.resolve(settings));
+    ThemeService.save(settings);
+  }, [settings.themeId, settings.customThemes]);
+
+  const updateCustomTheme = (theme: Theme) => {
+    setSettings(s => ({ ...s, customThemes: s.customThemes.map(t => t.id === theme.id ? theme : t) }));
+  };
+
+  const duplicateTheme = (base: Theme) => {
+    setSettings(s => {
+      const theme = ThemeService.createCustom(base, s.customThemes);
+      return { ...s, themeId: theme.id, customThemes: [...s.customThemes, theme] };
+    });
+  };
+
+  const deleteCustomTheme = (id: string) => {
+    setSettings(s => ({
+      ...s,
+      themeId: s.themeId === id ? ThemeService.defaultThemeId : s.themeId,
+      customThemes: s.customThemes.filter(t => t.id !== id)
+    }));
+  };
+
+  // Audience display windows mirror this window; one that opens later is brought up to date
+  useEffect(() => { DisplaySync.post({ type: 'library', library }); }, [library]);
+  useEffect(() => { DisplaySync.post({ type: 'settings', settings }); }, [settings]);
+  useEffect(() => {
+    DisplaySync.post({ type: 'slide', bookId: selectedBookId, position: slidePosition, blackout });
+  }, [selectedBookId, slidePosition, blackout]);
+
+  useEffect(() => DisplaySync.subscribe(message => {
+    if (message.type !== 'hello') return;
+    DisplaySync.post({ type: 'library', library });
+    DisplaySync.post({ type: 'settings', settings });
+    DisplaySync.post({ type: 'slide', bookId: selectedBookId, position: slidePosition, blackout });
+  }), [library, settings, selectedBookId, slidePosition, blackout]);
+
+  const openPresenter = () => {
+    setIsPresenterOpen(true);
+    setHeaderOpen(false);
+    DisplaySync.openDisplayWindow();
+  };
+
+  // The day whose seasonal variants are shown, as a Coptic date and its main seasons
+  const liturgicalDay = useMemo(() => {
+    const date = CopticCalendar.parseIsoDate(settings.liturgicalDate) || new Date();
+    const seasons = CopticCalendar.getSeasons(date);
+    return {
+      iso: CopticCalendar.toIsoDate(date),
+      coptic: CopticCalendar.formatCopticDate(CopticCalendar.toCoptic(date)),
+      seasonLabels: CopticCalendar.seasons
+        .filter(s => seasons.includes(s.key) && s.key !== 'adam' && s.key !== 'watos')
+        .map(s => s.label)
+    };
+  }, [settings.liturgicalDate]);
+
+  // Latin-script snippets use the reading face; other scripts keep their own
+  const getSnippetFontClass = (lang: Language) => {
+    const { fontClass } = getLanguageDef(lang);
+    return fontClass === 'font-times' || fontClass === 'font-inter' ? 'font-eb-garamond' : fontClass;
+  };
+
+  /**
+   * The snippet with its matches highlighted, starting shortly before the first match
+   * so that it falls inside the two visible lines
+   */
+  const renderSnippet = (result: SearchResult) => {
+    const matches = result.matches || [];
+    if (matches.length === 0) return result.textSnippet;
+    const from = matches[0].start > 40 ? result.textSnippet.lastIndexOf(' ', matches[0].start - 20) + 1 : 0;
+    const pieces: React.ReactNode[] = from > 0 ? ['… '] : [];
+    let at = from;
+    matches.forEach((m, i) => {
+      pieces.push(result.textSnippet.slice(at, m.start));
+      pieces.push(<mark key={i} className="bg-[color:color-mix(in_srgb,var(--theme-accent)_30%,transparent)] theme-text rounded-sm">{result.textSnippet.slice(m.start, m.end)}</mark>);
+      at = m.end;
+    });
+    pieces.push(result.textSnippet.slice(at));
+    return pieces;
+  };
+
   const toggleLanguage = (lang: Language) => {
     setSettings(prev => {
       const isSelected = prev.languages.includes(lang);
@@ -110,92 +301,259 @@ const App: React.FC = () => {
     });
   };
 
+  // Live parse of the editor buffer so problems show up while typing
+  const editorParse = useMemo<ParseResult | null>(() => {
+    if (!isEditorOpen) return null;
+    return ContentService.parseText(editorContent);
+  }, [editorContent, isEditorOpen, bibleStatus]);
+
+  const editorDiagnostics = editorParse?.diagnostics || [];
+  const alignmentIssues = editorParse?.alignment || [];
+
+  const editorErrorCount = editorDiagnostics.filter(d => d.severity === 'error').length;
+  const editorWarningCount = editorDiagnostics.length - editorErrorCount;
+
+  const editorLineCount = useMemo(() => editorContent.split('\n').length, [editorContent]);
+
+  const diagnosticsByLine = useMemo(() => {
+    const map = new Map<number, ParseDiagnostic[]>();
+    editorDiagnostics.forEach(d => {
+      if (!map.has(d.line)) map.set(d.line, []);
+      map.get(d.line)!.push(d);
+    });
+    return map;
+  }, [editorDiagnostics]);
+
+  const jumpToLine = (line: number, column: number = 1) => {
+    const textarea = editorRef.current;
+    if (!textarea) return;
+    const lines = editorContent.split('\n');
+    let offset = 0;
+    for (let i = 0; i < line - 1 && i < lines.length; i++) {
+      offset += lines[i].length + 1;
+    }
+    const lineText = lines[line - 1] || '';
+    textarea.focus();
+    textarea.setSelectionRange(offset + column - 1, offset + lineText.length);
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 22;
+    textarea.scrollTop = Math.max(0, (line - 3) * lineHeight);
+  };
+
+  const jumpToDiagnostic = (diag: ParseDiagnostic) => jumpToLine(diag.line, diag.column);
+
   const handleSaveEditor = () => {
-    try {
-      const newLibrary = ContentService.parseTextToLibrary(editorContent);
-      ContentService.saveLibrary(newLibrary, editorContent, googleDocId);
-      setLibrary(newLibrary);
-      setIsEditorOpen(false);
-    } catch (e) {
-      alert("Error saving data. Please check your text formatting.");
+    const { library: newLibrary, diagnostics } = ContentService.parseText(editorContent);
+    if (diagnostics.some(d => d.severity === 'error')) {
+      const firstError = diagnostics.find(d => d.severity === 'error')!;
+      jumpToDiagnostic(firstError);
+      return;
     }
+    ContentService.saveLibrary(newLibrary, editorContent, googleDocId);
+    setLibrary(newLibrary);
+    setLibraryError(null);
+    setIsEditorOpen(false);
   };
 
-  const findBook = (items: LibraryItem[], id: string): LibraryItem | null => {
-    for (const item of items) {
-      if (item.id === id && item.type === 'book') return item;
-      if (item.children) {
-        const found = findBook(item.children, id);
-        if (found) return found;
+  /**
+   * Converts the selected text from a legacy Coptic font, or with nothing selected,
+   * every [COP] stanza in the document that looks legacy-encoded
+   */
+  const convertLegacyCoptic = () => {
+    const textarea = editorRef.current;
+    const start = textarea?.selectionStart ?? 0;
+    const end = textarea?.selectionEnd ?? 0;
+    if (textarea && end > start) {
+      const selected = editorContent.slice(start, end);
+      const converted = LegacyCoptic.convert(selected, LegacyCoptic.detect(selected) || 'cs-avva-shenouda');
+      setEditorContent(editorContent.slice(0, start) + converted + editorContent.slice(end));
+      requestAnimationFrame(() => textarea.setSelectionRange(start, start + converted.length));
+      return;
+    }
+    const { text, converted } = LegacyCoptic.convertDocument(editorContent);
+    if (converted > 0) setEditorContent(text);
+  };
+
+  const openEditor = () => {
+    // A cached library without its source text still opens as valid, editable text
+    if (!editorContent.trim() && library.length > 0) {
+      setEditorContent(ContentService.serializeLibraryToText(library));
+    }
+    setIsEditorOpen(true);
+  };
+
+  // Rebuilt whenever the library is replaced, so each keystroke only queries it
+  const searchIndex = useMemo(() => SearchService.buildIndex(library), [library]);
+
+  const searchPage = useMemo(() => {
+    if (globalSearchQuery.trim().length < 2) return null;
+    // Shared (@include) content shows up once per occurrence; equal hits in the open book come first
+    // so jumping lands on the occurrence the user is already reading
+    return SearchService.search(searchIndex, globalSearchQuery, searchPageIndex, selectedBookId);
+  }, [globalSearchQuery, searchIndex, searchPageIndex, selectedBookId]);
+
+  const globalSearchResults = searchPage?.results || [];
+
+  const searchResultGroups = useMemo(() => {
+    const groups: SearchResultGroup[] = [];
+    globalSearchResults.forEach((result, index) => {
+      const key = `${result.bookId}/${result.sectionId}`;
+      const last = groups[groups.length - 1];
+      if (last && last.key === key) {
+        last.results.push({ result, index });
+      } else {
+        groups.push({ key, bookTitle: result.bookTitle, sectionTitle: result.sectionTitle, results: [{ result, index }] });
       }
+    });
+    return groups;
+  }, [globalSearchResults]);
+
+  // A new query starts again from the first page and the first result
+  useEffect(() => {
+    setSearchPageIndex(0);
+    setActiveResultIndex(0);
+  }, [globalSearchQuery]);
+
+  useEffect(() => {
+    searchResultsRef.current?.querySelector(`[data-result-index="${activeResultIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeResultIndex]);
+
+  const openSearchResult = (result: SearchResult) => {
+    setSelectedBookId(result.bookId);
+    setTargetSectionId(result.sectionId);
+    setTargetPartIndex(result.partIndex);
+    setGlobalSearchQuery('');
+    setIsSearchExpanded(false);
+    setHeaderOpen(false);
+  };
+
+  const changeSearchPage = (page: number) => {
+    setSearchPageIndex(page);
+    setActiveResultIndex(0);
+    searchInputRef.current?.focus();
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (globalSearchResults.length === 0) return;
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveResultIndex(i => (i + step + globalSearchResults.length) % globalSearchResults.length);
+    } else if (e.key === 'Enter') {
+      const result = globalSearchResults[activeResultIndex];
+      if (result) openSearchResult(result);
+    } else if (e.key === 'Escape') {
+      setGlobalSearchQuery('');
+      setIsSearchExpanded(false);
+      searchInputRef.current?.blur();
     }
-    return null;
   };
 
-  const globalSearchResults = useMemo(() => {
-    if (!globalSearchQuery.trim() || globalSearchQuery.length < 2) return [];
-    
-    const results: SearchResult[] = [];
-    const query = globalSearchQuery.toLowerCase();
-
-    const searchInItems = (items: LibraryItem[]) => {
-      items.forEach(item => {
-        if (item.type === 'book' && item.sections) {
-          item.sections.forEach(sec => {
-            sec.parts.forEach((part, partIdx) => {
-              Object.entries(part.content).forEach(([lang, stanzas]) => {
-                if (!stanzas) return;
-                stanzas.forEach(stanza => {
-                  if (stanza.toLowerCase().includes(query)) {
-                    results.push({
-                      bookId: item.id,
-                      sectionId: sec.id,
-                      partIndex: partIdx,
-                      bookTitle: item.title,
-                      sectionTitle: sec.title,
-                      textSnippet: stanza,
-                      language: lang as Language
-                    });
-                  }
-                });
-              });
-            });
-          });
-        }
-        if (item.children) searchInItems(item.children);
-      });
-    };
+  const selectedBook = ContentService.findBook(library, selectedBookId);
+
+  // Commands from phone remotes go through the same paths as the keyboard and the sidebar
+  const handleRemoteMessage = (message: RemoteMessage) => {
+    if (message.type === 'paired') {
+      setRemotePairing(p => p && { ...p, code: message.code });
+    } else if (message.type === 'peers') {
+      setRemotePairing(p => p && { ...p, remotes: message.remotes });
+    } else if (message.type === 'command') {
+      const { command } = message;
+      if (command.action === 'next' || command.action === 'previous') {
+        setSlideStep(prev => ({ id: (prev?.id || 0) + 1, step: command.action === 'next' ? 1 : -1 }));
+      } else if (command.action === 'section') {
+        setTargetSectionId(command.sectionId);
+        setTargetPartIndex(null);
+      } else if (command.action === 'blackout') {
+        setBlackout(command.on);
+      }
+    }
+  };
 
-    searchInItems(library);
-    return results.slice(0, 50);
-  }, [globalSearchQuery, library]);
+  const startRemote = (relayAddress: string) => {
+    remoteRef.current?.close();
+    RemoteControl.setRelayAddress(relayAddress);
+    setRemotePairing({ code: null, status: 'connecting', remotes: 0 });
+    // Events of a connection that has since been replaced or stopped are dropped
+    let connection: RemoteConnection | null = null;
+    connection = RemoteControl.connect(relayAddress, null, 'operator', {
+      onMessage: message => {
+        if (remoteRef.current === connection) handleRemoteMessage(message);
+      },
+      onStatus: (status, reason) => {
+        if (remoteRef.current === connection) setRemotePairing(p => p && { ...p, status, reason });
+      }
+    });
+    remoteRef.current = connection;
+  };
+
+  const stopRemote = () => {
+    remoteRef.current?.close();
+    remoteRef.current = null;
+    setRemotePairing(null);
+  };
 
-  const selectedBook = findBook(library, selectedBookId);
+  useEffect(() => () => remoteRef.current?.close(), []);
+
+  // Remotes get the slide state again whenever it changes or another phone joins
+  useEffect(() => {
+    if (remotePairing?.status !== 'connected' || remotePairing.remotes === 0) return;
+    const { current, next } = shownSlides;
+    remoteRef.current?.send({
+      type: 'state',
+      bookTitle: selectedBook?.title || '',
+      sections: (selectedBook?.sections || []).map(section => ({ id: section.id, title: section.title })),
+      current: current && RemoteControl.toRemoteSlide(current, settings.languages),
+      next: next && RemoteControl.toRemoteSlide(next, settings.languages),
+      blackout
+    });
+  }, [remotePairing?.status, remotePairing?.remotes, shownSlides, blackout, selectedBook, settings.languages]);
 
   if (loading) return (
-    <div className="h-screen bg-black flex flex-col items-center justify-center space-y-4">
-      <div className="w-12 h-12 border-t-2 border-[#c5a059] border-r-2 border-transparent rounded-full animate-spin"></div>
+    <div className="h-screen theme-surface flex flex-col items-center justify-center space-y-4">
+      <div className="w-12 h-12 border-t-2 border-[color:var(--theme-accent)] border-r-2 border-transparent rounded-full animate-spin"></div>
       <div className="gold-text font-cinzel text-lg tracking-[0.2em] uppercase">Loading Library</div>
     </div>
   );
 
   const sidebarWidth = 320;
   const headerHeight = 80;
+  const presenterWidth = 360;
 
   return (
-    <div className="relative h-screen w-screen overflow-hidden bg-black text-white selection:bg-[#c5a059] selection:text-black">
+    <div className="relative h-screen w-screen overflow-hidden theme-surface theme-text selection:bg-[color:var(--theme-accent)] selection:text-[color:var(--theme-bg)]">
       
-      <Reader 
-        book={selectedBook} 
-        settings={settings} 
-        targetSectionId={targetSectionId} 
-        targetPartIndex={targetPartIndex}
-        onTargetReached={() => {
-          setTargetSectionId(null);
-          setTargetPartIndex(null);
-        }}
-        onOverflow={setIsOverflowing}
-      />
+      <div className="h-screen" style={{ width: isPresenterOpen ? `calc(100% - ${presenterWidth}px)` : '100%' }}>
+        <Reader 
+          book={selectedBook} 
+          library={library}
+          settings={settings} 
+          targetSectionId={targetSectionId} 
+          targetPartIndex={targetPartIndex}
+          onTargetReached={() => {
+            setTargetSectionId(null);
+            setTargetPartIndex(null);
+          }}
+          onOverflow={setIsOverflowing}
+          onSlideChange={handleSlideChange}
+          step={slideStep}
+          blackout={blackout && !isPresenterOpen}
+        />
+      </div>
+
+      {/* PRESENTER VIEW */}
+      {isPresenterOpen && (
+        <div className="fixed top-0 right-0 h-full z-[50]" style={{ width: presenterWidth }}>
+          <PresenterView
+            book={selectedBook}
+            settings={settings}
+            current={shownSlides.current}
+            next={shownSlides.next}
+            onSelectSection={(sid) => { setTargetSectionId(sid); setTargetPartIndex(null); }}
+            onOpenDisplay={() => DisplaySync.openDisplayWindow()}
+            onClose={() => setIsPresenterOpen(false)}
+          />
+        </div>
+      )}
 
       {/* DRAGGABLE SIDEBAR PANEL */}
       <motion.div
@@ -213,7 +571,7 @@ const App: React.FC = () => {
         className="fixed top-0 left-0 h-full z-[60] flex pointer-events-auto"
         style={{ width: sidebarWidth + 40 }}
       >
-        <div className="h-full bg-[#0d0d0d]/95 backdrop-blur-xl border-r border-white/10 shadow-2xl flex flex-col" style={{ width: sidebarWidth }}>
+        <div className="h-full theme-panel backdrop-blur-xl border-r theme-divider shadow-2xl flex flex-col" style={{ width: sidebarWidth }}>
           <Sidebar 
             library={library} 
             selectedBookId={selectedBookId} 
@@ -224,8 +582,8 @@ const App: React.FC = () => {
           />
         </div>
         <div onClick={() => setSidebarOpen(!sidebarOpen)} className="w-10 h-full flex items-center justify-center cursor-pointer group bg-transparent">
-          <div className="w-1 h-16 bg-[#c5a059]/20 group-hover:bg-[#c5a059]/60 rounded-full transition-all flex flex-col items-center justify-center">
-            <GripVertical size={12} className="text-[#c5a059] opacity-0 group-hover:opacity-100" />
+          <div className="w-1 h-16 bg-[color:color-mix(in_srgb,var(--theme-accent)_20%,transparent)] group-hover:bg-[color:color-mix(in_srgb,var(--theme-accent)_60%,transparent)] rounded-full transition-all flex flex-col items-center justify-center">
+            <GripVertical size={12} className="text-[color:var(--theme-accent)] opacity-0 group-hover:opacity-100" />
           </div>
         </div>
       </motion.div>
@@ -246,22 +604,44 @@ const App: React.FC = () => {
         className="fixed top-0 left-0 w-full z-[70] flex flex-col pointer-events-auto items-center"
         style={{ height: headerHeight + 30 }}
       >
-        <div className="w-full bg-[#0d0d0d]/95 backdrop-blur-xl border-b border-white/10 shadow-xl flex items-center justify-between px-6" style={{ height: headerHeight }}>
+        <div className="w-full theme-panel backdrop-blur-xl border-b theme-divider shadow-xl flex items-center justify-between px-6" style={{ height: headerHeight }}>
           <div className="flex items-center space-x-6">
             <h1 className="font-cinzel gold-text tracking-widest font-bold text-sm hidden lg:block whitespace-nowrap">ADDITIONAL COPTIC PARTS</h1>
-            <div className="flex bg-white/5 rounded-lg p-1 border border-white/10 shrink-0">
-              {[Language.ENGLISH, Language.COPTIC, Language.ARABIC, Language.TRANSLITERATED_ENGLISH, Language.TRANSLITERATED_ARABIC].map(lang => (
+            <div className="flex theme-tint rounded-lg p-1 border theme-border min-w-0 overflow-x-auto">
+              {LANGUAGE_REGISTRY.map(({ code, name }) => (
                 <button
-                  key={lang}
-                  onClick={() => toggleLanguage(lang)}
-                  className={`px-3 py-1.5 text-[10px] font-bold rounded-md transition-all ${
-                    settings.languages.includes(lang) ? 'gold-text bg-white/5' : 'text-gray-600'
+                  key={code}
+                  onClick={() => toggleLanguage(code)}
+                  title={name}
+                  className={`px-3 py-1.5 text-[10px] font-bold rounded-md transition-all whitespace-nowrap ${
+                    settings.languages.includes(code) ? 'gold-text theme-tint' : 'theme-faint'
                   }`}
                 >
-                  {lang}
+                  {code}
                 </button>
               ))}
             </div>
+            <div className="hidden md:flex items-center space-x-2 shrink-0" title={liturgicalDay.seasonLabels.join(', ')}>
+              <CalendarDays size={14} className="theme-muted" />
+              <input
+                type="date"
+                value={liturgicalDay.iso}
+                onChange={(e) => setSettings(prev => ({ ...prev, liturgicalDate: e.target.value || null }))}
+                className="theme-tint border theme-border rounded-md px-2 py-1 text-[10px] theme-text font-inter outline-none focus:border-[color:color-mix(in_srgb,var(--theme-accent)_50%,transparent)] [color-scheme:dark]"
+              />
+              <div className="hidden xl:flex flex-col leading-tight">
+                <span className="text-[10px] gold-text font-cinzel tracking-wider whitespace-nowrap">{liturgicalDay.coptic}</span>
+                <span className="text-[9px] theme-muted uppercase tracking-wider whitespace-nowrap">{liturgicalDay.seasonLabels[0]}</span>
+              </div>
+              {settings.liturgicalDate && (
+                <button
+                  onClick={() => setSettings(prev => ({ ...prev, liturgicalDate: null }))}
+                  className="text-[9px] font-bold uppercase tracking-wider theme-muted hover:text-[color:var(--theme-text)]"
+                >
+                  Today
+                </button>
+              )}
+            </div>
           </div>
 
           <div className="flex items-center space-x-3 shrink-0">
@@ -274,6 +654,19 @@ const App: React.FC = () => {
               )}
             </AnimatePresence>
 
+            {libraryError && (
+              <button onClick={openEditor} className="flex items-center text-[8px] text-red-500 font-bold tracking-widest uppercase mr-2" title={libraryError}>
+                <XCircle size={12} className="mr-1" />
+                Not Saved
+              </button>
+            )}
+
+            {blackout && (
+              <button onClick={() => setBlackout(false)} className="flex items-center text-[8px] text-red-500 font-bold tracking-widest uppercase mr-2" title="End blackout">
+                Blackout
+              </button>
+            )}
+
             {isSyncing && (
               <div className="flex items-center text-[10px] gold-text font-cinzel tracking-widest animate-pulse mr-2">
                 <RefreshCw size={12} className="animate-spin mr-2" />
@@ -286,7 +679,7 @@ const App: React.FC = () => {
               <motion.div 
                 initial={false}
                 animate={{ width: isSearchExpanded ? (window.innerWidth < 768 ? '180px' : '320px') : '40px' }}
-                className="bg-white/5 border border-white/10 rounded-xl overflow-hidden flex items-center relative"
+                className="theme-tint border theme-border rounded-xl overflow-hidden flex items-center relative"
               >
                 <button 
                   onClick={() => {
@@ -297,7 +690,7 @@ const App: React.FC = () => {
                       setIsSearchExpanded(false);
                     }
                   }}
-                  className={`p-2 transition-colors ${isSearchExpanded ? 'text-[#c5a059]' : 'text-gray-400 hover:text-white'}`}
+                  className={`p-2 transition-colors ${isSearchExpanded ? 'text-[color:var(--theme-accent)]' : 'theme-muted hover:text-[color:var(--theme-text)]'}`}
                 >
                   <Search size={20} />
                 </button>
@@ -305,17 +698,18 @@ const App: React.FC = () => {
                 <input 
                   ref={searchInputRef}
                   type="text"
-                  placeholder="Search prayers..."
+                  placeholder='Search prayers, "phrases", lang:AR...'
                   value={globalSearchQuery}
                   onChange={(e) => setGlobalSearchQuery(e.target.value)}
+                  onKeyDown={handleSearchKeyDown}
                   onBlur={() => { if (!globalSearchQuery) setIsSearchExpanded(false); }}
-                  className={`bg-transparent border-none outline-none text-xs font-cinzel tracking-widest text-gray-300 w-full pr-10 transition-opacity duration-300 ${isSearchExpanded ? 'opacity-100' : 'opacity-0'}`}
+                  className={`bg-transparent border-none outline-none text-xs font-cinzel tracking-widest theme-text w-full pr-10 transition-opacity duration-300 ${isSearchExpanded ? 'opacity-100' : 'opacity-0'}`}
                 />
 
                 {globalSearchQuery && (
                   <button 
                     onClick={() => { setGlobalSearchQuery(''); searchInputRef.current?.focus(); }}
-                    className="absolute right-2 text-gray-500 hover:text-white"
+                    className="absolute right-2 theme-muted hover:text-[color:var(--theme-text)]"
                   >
                     <X size={14} />
                   </button>
@@ -327,92 +721,282 @@ const App: React.FC = () => {
                 {isSearchExpanded && globalSearchResults.length > 0 && (
                   <motion.div 
                     initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: 10 }}
-                    className="absolute top-full right-0 mt-3 w-80 bg-[#121212] border border-white/10 rounded-2xl shadow-2xl max-h-[60vh] overflow-y-auto z-[80] p-2"
+                    ref={searchResultsRef}
+                    className="absolute top-full right-0 mt-3 w-80 theme-panel border theme-divider rounded-2xl shadow-2xl max-h-[60vh] overflow-y-auto z-[80] p-2"
                   >
-                    {globalSearchResults.map((result, idx) => (
-                      <button
-                        key={idx}
-                        onClick={() => {
-                          setSelectedBookId(result.bookId);
-                          setTargetSectionId(result.sectionId);
-                          setTargetPartIndex(result.partIndex);
-                          setGlobalSearchQuery('');
-                          setIsSearchExpanded(false);
-                          setHeaderOpen(false);
-                        }}
-                        className="w-full text-left p-4 hover:bg-white/5 rounded-xl border-b border-white/5 last:border-0 group"
-                      >
-                        <div className="flex justify-between items-start mb-1">
-                          <span className="text-[10px] font-cinzel gold-text font-bold tracking-widest uppercase truncate">{result.bookTitle}</span>
-                          <span className="text-[9px] text-gray-600 font-bold uppercase ml-2 px-1 bg-white/5 rounded">{result.language}</span>
-                        </div>
-                        <div className="text-[11px] font-cinzel text-gray-400 uppercase tracking-wider mb-2 opacity-60">{result.sectionTitle}</div>
-                        <div className={`text-xs text-gray-300 line-clamp-2 leading-relaxed ${result.language === Language.ARABIC ? 'font-arabic text-right' : result.language === Language.COPTIC ? 'font-coptic' : 'font-eb-garamond'}`} dir={result.language === Language.ARABIC ? 'rtl' : 'ltr'}>
-                          {result.textSnippet}
+                    {searchResultGroups.map(group => (
+                      <div key={`${group.key}-${group.results[0].index}`} className="mb-1">
+                        <div className="px-3 pt-3 pb-1 flex items-baseline space-x-2 min-w-0">
+                          <span className="text-[10px] font-cinzel gold-text font-bold tracking-widest uppercase truncate">{group.bookTitle}</span>
+                          <span className="text-[10px] font-cinzel theme-muted uppercase tracking-wider truncate">{group.sectionTitle}</span>
                         </div>
-                      </button>
+                        {group.results.map(({ result, index }) => (
+                          <button
+                            key={index}
+                            data-result-index={index}
+                            onClick={() => openSearchResult(result)}
+                            onMouseEnter={() => setActiveResultIndex(index)}
+                            className={`w-full text-left px-4 py-3 rounded-xl group ${index === activeResultIndex ? 'theme-tint-strong' : 'hover:bg-[color:var(--theme-tint)]'}`}
+                          >
+                            <div className="flex justify-between items-center mb-1">
+                              <span className="text-[9px] normal-case tracking-normal theme-faint truncate">
+                                {result.isTitle && <span className="mr-2 gold-text">Title</span>}
+                                {result.isIncluded && <span className="mr-2">(shared)</span>}
+                                {result.citation && <span className="gold-text">{result.citation}</span>}
+                              </span>
+                              <span className="text-[9px] theme-faint font-bold uppercase ml-2 px-1 theme-tint rounded">{result.language}</span>
+                            </div>
+                            <div className={`text-xs theme-text line-clamp-2 leading-relaxed ${getSnippetFontClass(result.language)} ${getLanguageDef(result.language).direction === 'rtl' ? 'text-right' : ''}`} dir={getLanguageDef(result.language).direction}>
+                              {renderSnippet(result)}
+                            </div>
+                          </button>
+                        ))}
+                      </div>
                     ))}
+                    {searchPage && searchPage.pageCount > 1 && (
+                      <div className="flex items-center justify-between px-3 py-2 border-t theme-border text-[10px] theme-muted uppercase tracking-wider">
+                        <button
+                          onMouseDown={(e) => e.preventDefault()}
+                          onClick={() => changeSearchPage(searchPage.page - 1)}
+                          disabled={searchPage.page === 0}
+                          className="px-2 py-1 rounded-md hover:text-[color:var(--theme-text)] disabled:opacity-30"
+                        >
+                          Prev
+                        </button>
+                        <span>
+                          {searchPage.page * SearchService.pageSize + 1}–{searchPage.page * SearchService.pageSize + globalSearchResults.length} of {searchPage.total}
+                        </span>
+                        <button
+                          onMouseDown={(e) => e.preventDefault()}
+                          onClick={() => changeSearchPage(searchPage.page + 1)}
+                          disabled={searchPage.page >= searchPage.pageCount - 1}
+                          className="px-2 py-1 rounded-md hover:text-[color:var(--theme-text)] disabled:opacity-30"
+                        >
+                          Next
+                        </button>
+                      </div>
+                    )}
                   </motion.div>
                 )}
               </AnimatePresence>
             </div>
             
-            <button onClick={() => setIsEditorOpen(true)} className="p-2 text-gray-400 hover:gold-text" title="Open Database">
+            {DisplaySync.isSupported() && (
+              <button onClick={openPresenter} className={`p-2 hover:gold-text ${isPresenterOpen ? 'gold-text' : 'theme-muted'}`} title="Present: open the audience display and the presenter view">
+                <MonitorPlay size={20} />
+              </button>
+            )}
+
+            <div className="relative">
+              <button
+                onClick={() => setIsRemotePanelOpen(v => !v)}
+                className={`p-2 hover:gold-text ${remotePairing?.status === 'connected' ? 'gold-text' : 'theme-muted'}`}
+                title="Phone remote"
+              >
+                <Smartphone size={20} />
+              </button>
+              {isRemotePanelOpen && (
+                <RemotePanel
+                  pairing={remotePairing}
+                  blackout={blackout}
+                  onStart={startRemote}
+                  onStop={stopRemote}
+                  onToggleBlackout={() => setBlackout(b => !b)}
+                />
+              )}
+            </div>
+
+            <div className="relative">
+              <button
+                onClick={() => setIsThemePanelOpen(v => !v)}
+                className={`p-2 hover:gold-text ${isThemePanelOpen ? 'gold-text' : 'theme-muted'}`}
+                title="Theme"
+              >
+                <Palette size={20} />
+              </button>
+              {isThemePanelOpen && (
+                <ThemePanel
+                  themes={ThemeService.getThemes(settings)}
+                  activeThemeId={settings.themeId}
+                  onSelect={(themeId) => setSettings(s => ({ ...s, themeId }))}
+                  onChange={updateCustomTheme}
+                  onDuplicate={duplicateTheme}
+                  onDelete={deleteCustomTheme}
+                />
+              )}
+            </div>
+
+            <button onClick={openEditor} className="p-2 theme-muted hover:gold-text" title="Open Database">
               <Database size={20} />
             </button>
           </div>
         </div>
 
         <div onClick={() => setHeaderOpen(!headerOpen)} className="w-24 h-6 flex items-center justify-center cursor-pointer group bg-transparent">
-          <div className="h-1 w-12 bg-[#c5a059]/20 group-hover:bg-[#c5a059]/60 rounded-full transition-all flex items-center justify-center">
-             <GripHorizontal size={12} className="text-[#c5a059] opacity-0 group-hover:opacity-100" />
+          <div className="h-1 w-12 bg-[color:color-mix(in_srgb,var(--theme-accent)_20%,transparent)] group-hover:bg-[color:color-mix(in_srgb,var(--theme-accent)_60%,transparent)] rounded-full transition-all flex items-center justify-center">
+             <GripHorizontal size={12} className="text-[color:var(--theme-accent)] opacity-0 group-hover:opacity-100" />
           </div>
         </div>
       </motion.div>
 
       {/* FONT SIZE CONTROLS */}
       <div className="fixed bottom-4 left-4 z-[80] flex items-center space-x-3 pointer-events-none">
-        <div className="bg-black/80 backdrop-blur-xl border border-white/10 rounded-2xl p-2 shadow-2xl pointer-events-auto flex items-center space-x-3">
-          <button onClick={() => setSettings(s => ({...s, fontSize: Math.max(12, s.fontSize - 2)}))} className="p-3 text-gray-500 hover:text-white hover:bg-white/5 rounded-xl transition-all"><ChevronDown size={20} /></button>
+        <div className="theme-panel backdrop-blur-xl border theme-divider rounded-2xl p-2 shadow-2xl pointer-events-auto flex items-center space-x-3">
+          <button onClick={() => setSettings(s => ({...s, fontSize: Math.max(12, s.fontSize - 2)}))} className="p-3 theme-muted hover:text-[color:var(--theme-text)] hover:bg-[color:var(--theme-tint)] rounded-xl transition-all"><ChevronDown size={20} /></button>
           <div className="flex flex-col items-center min-w-[3rem]">
-            <span className="text-[10px] font-cinzel text-gray-600 uppercase tracking-tighter">Size</span>
+            <span className="text-[10px] font-cinzel theme-faint uppercase tracking-tighter">Size</span>
             <span className="text-lg font-cinzel gold-text font-bold leading-none">{settings.fontSize}</span>
           </div>
-          <button onClick={() => setSettings(s => ({...s, fontSize: Math.min(72, s.fontSize + 2)}))} disabled={isOverflowing} className={`p-3 rounded-xl transition-all ${isOverflowing ? 'opacity-20 cursor-not-allowed text-gray-800' : 'text-gray-500 hover:text-white hover:bg-white/5'}`}><ChevronUp size={20} /></button>
+          <button onClick={() => setSettings(s => ({...s, fontSize: Math.min(72, s.fontSize + 2)}))} disabled={isOverflowing} className={`p-3 rounded-xl transition-all ${isOverflowing ? 'opacity-20 cursor-not-allowed theme-faint' : 'theme-muted hover:text-[color:var(--theme-text)] hover:bg-[color:var(--theme-tint)]'}`}><ChevronUp size={20} /></button>
+          <div className="w-px h-10 theme-tint-strong" />
+          <div className="flex flex-col items-center pr-2" title="How parts are cut into slides, unless a section sets @slides">
+            <span className="text-[10px] font-cinzel theme-faint uppercase tracking-tighter">Slides</span>
+            <select
+              value={ContentService.formatPagination(settings.pagination)}
+              onChange={(e) => {
+                const pagination = ContentService.parsePagination(e.target.value);
+                if (pagination) setSettings(s => ({ ...s, pagination }));
+              }}
+              className="bg-transparent text-sm font-cinzel gold-text font-bold outline-none cursor-pointer [color-scheme:dark]"
+            >
+              {PAGINATION_OPTIONS.map(({ label, pagination }) => (
+                <option key={label} value={ContentService.formatPagination(pagination)}>{label}</option>
+              ))}
+            </select>
+          </div>
         </div>
       </div>
 
       {/* EDITOR MODAL */}
       <AnimatePresence>
         {isEditorOpen && (
-          <motion.div initial={{ opacity: 0, scale: 0.98 }} animate={{ opacity: 1, scale: 1 }} exit={{ opacity: 0, scale: 0.98 }} className="fixed inset-0 z-[100] bg-black/95 flex flex-col p-6 md:p-12 overflow-y-auto">
+          <motion.div initial={{ opacity: 0, scale: 0.98 }} animate={{ opacity: 1, scale: 1 }} exit={{ opacity: 0, scale: 0.98 }} className="fixed inset-0 z-[100] theme-backdrop flex flex-col p-6 md:p-12 overflow-y-auto">
             <div className="w-full max-w-5xl mx-auto flex flex-col h-full">
               <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8 gap-4">
                 <div>
                   <h2 className="text-2xl font-cinzel gold-text font-bold tracking-widest flex items-center uppercase"><FileText size={24} className="mr-3" /> Content Editor</h2>
-                  <p className="text-xs text-gray-500 font-inter mt-1 tracking-wider uppercase"># Category, ## Book, ### Section. [EN], [COP], [AR], [TRAN-EN], [TRAN-AR] for content. "---" for slides.</p>
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 mt-3 text-xs font-inter">
+                    {EDITOR_SYNTAX.map(({ syntax, description }) => (
+                      <React.Fragment key={syntax}>
+                        <dt className="max-w-xs"><code className="gold-text font-mono whitespace-pre-wrap">{syntax}</code></dt>
+                        <dd className="theme-muted">{description}</dd>
+                      </React.Fragment>
+                    ))}
+                  </dl>
                 </div>
                 <div className="flex space-x-4 w-full md:w-auto">
-                  <button onClick={() => setIsEditorOpen(false)} className="flex-1 md:flex-none px-8 py-3 border border-white/10 rounded-xl hover:bg-white/5 uppercase text-[10px] tracking-[0.2em] font-bold">Cancel</button>
-                  <button onClick={handleSaveEditor} className="flex-1 md:flex-none px-8 py-3 gold-bg text-black font-bold rounded-xl hover:opacity-90 uppercase text-[10px] tracking-[0.2em] shadow-lg">Save & Close</button>
+                  <button
+                    onClick={convertLegacyCoptic}
+                    title="Convert the selection, or every [COP] line typed in a legacy font, to Unicode Coptic"
+                    className="flex-1 md:flex-none px-4 py-3 border theme-border rounded-xl hover:bg-[color:var(--theme-tint)] uppercase text-[10px] tracking-[0.2em] font-bold flex items-center justify-center"
+                  >
+                    <Wand2 size={14} className="mr-2" /> Convert Legacy Coptic
+                  </button>
+                  <button onClick={() => setIsEditorOpen(false)} className="flex-1 md:flex-none px-8 py-3 border theme-border rounded-xl hover:bg-[color:var(--theme-tint)] uppercase text-[10px] tracking-[0.2em] font-bold">Cancel</button>
+                  <button 
+                    onClick={handleSaveEditor} 
+                    disabled={editorErrorCount > 0}
+                    title={editorErrorCount > 0 ? 'Fix the errors listed below before saving' : undefined}
+                    className="flex-1 md:flex-none px-8 py-3 gold-bg theme-on-accent font-bold rounded-xl hover:opacity-90 uppercase text-[10px] tracking-[0.2em] shadow-lg disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    Save & Close
+                  </button>
                 </div>
               </div>
 
-              <div className="bg-white/5 border border-white/10 rounded-2xl p-6 mb-8 flex flex-col md:flex-row items-center gap-6">
+              <div className="theme-tint border theme-border rounded-2xl p-6 mb-8 flex flex-col md:flex-row items-center gap-6">
                 <div className="flex-1 w-full">
                   <label className="text-[10px] font-cinzel gold-text tracking-widest uppercase mb-2 block">Link to Google Doc (Public View Only)</label>
                   <div className="relative">
-                    <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none text-gray-500"><LinkIcon size={16} /></div>
-                    <input type="text" placeholder="Enter Google Doc ID..." value={googleDocId} onChange={(e) => setGoogleDocId(e.target.value)} className="w-full bg-black/40 border border-white/10 rounded-xl py-3 pl-12 pr-4 text-sm font-mono text-gray-300 focus:border-[#c5a059] outline-none transition-all" />
+                    <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none theme-muted"><LinkIcon size={16} /></div>
+                    <input type="text" placeholder="Enter Google Doc ID..." value={googleDocId} onChange={(e) => setGoogleDocId(e.target.value)} className="w-full theme-field border theme-border rounded-xl py-3 pl-12 pr-4 text-sm font-mono theme-text focus:border-[color:var(--theme-accent)] outline-none transition-all" />
                   </div>
+                  {libraryError && <p className="text-[11px] text-red-500 mt-2">{libraryError}</p>}
                 </div>
-                <button disabled={!googleDocId || isSyncing} onClick={() => syncFromGoogleDoc(googleDocId)} className="w-full md:w-auto px-6 py-3 bg-white/5 border border-[#c5a059]/40 rounded-xl gold-text text-[10px] font-bold tracking-widest hover:bg-[#c5a059]/10 disabled:opacity-30 disabled:cursor-not-allowed uppercase flex items-center justify-center min-w-[140px]">
+                <button disabled={!googleDocId || isSyncing} onClick={() => syncFromGoogleDoc(googleDocId)} className="w-full md:w-auto px-6 py-3 theme-tint border border-[color:color-mix(in_srgb,var(--theme-accent)_40%,transparent)] rounded-xl gold-text text-[10px] font-bold tracking-widest hover:bg-[color:color-mix(in_srgb,var(--theme-accent)_10%,transparent)] disabled:opacity-30 disabled:cursor-not-allowed uppercase flex items-center justify-center min-w-[140px]">
                   {isSyncing ? <RefreshCw size={14} className="animate-spin mr-2" /> : <RefreshCw size={14} className="mr-2" />}
                   {isSyncing ? 'Syncing...' : 'Sync Now'}
                 </button>
               </div>
 
-              <textarea value={editorContent} onChange={(e) => setEditorContent(e.target.value)} className="flex-1 bg-black/50 text-gray-300 font-mono p-8 rounded-2xl border border-white/10 resize-none focus:outline-none focus:border-[#c5a059] text-sm leading-relaxed shadow-inner" spellCheck={false} placeholder="# Category Name..." disabled={isSyncing} />
+              <BiblePanel status={bibleStatus} onImport={importBibleFile} onRemove={removeBibleFile} />
+
+              <div className="flex-1 min-h-[300px] flex theme-field rounded-2xl border theme-border focus-within:border-[color:var(--theme-accent)] overflow-hidden shadow-inner">
+                {/* LINE GUTTER WITH DIAGNOSTIC MARKERS */}
+                <div ref={gutterRef} className="shrink-0 overflow-hidden select-none py-8 pl-4 pr-3 border-r theme-border font-mono text-sm leading-relaxed text-right theme-faint">
+                  {Array.from({ length: editorLineCount }).map((_, i) => {
+                    const lineDiags = diagnosticsByLine.get(i + 1);
+                    const hasError = lineDiags?.some(d => d.severity === 'error');
+                    return (
+                      <div 
+                        key={i} 
+                        title={lineDiags?.map(d => d.message).join('\n')}
+                        onClick={lineDiags ? () => jumpToDiagnostic(lineDiags[0]) : undefined}
+                        className={`flex items-center justify-end ${lineDiags ? 'cursor-pointer' : ''} ${hasError ? 'text-red-500' : lineDiags ? 'text-yellow-500' : ''}`}
+                      >
+                        {lineDiags && <span className={`w-1.5 h-1.5 rounded-full mr-2 ${hasError ? 'bg-red-500' : 'bg-yellow-500'}`} />}
+                        {i + 1}
+                      </div>
+                    );
+                  })}
+                </div>
+                <textarea 
+                  ref={editorRef}
+                  value={editorContent} 
+                  onChange={(e) => setEditorContent(e.target.value)} 
+                  onScroll={(e) => { if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop; }}
+                  wrap="off"
+                  className="flex-1 bg-transparent theme-text font-mono py-8 px-6 resize-none focus:outline-none text-sm leading-relaxed whitespace-pre overflow-auto" 
+                  spellCheck={false} 
+                  placeholder="# Category Name..." 
+                  disabled={isSyncing} 
+                />
+              </div>
+
+              {/* PARSE DIAGNOSTICS */}
+              {editorDiagnostics.length > 0 && (
+                <div className="mt-4 theme-tint border theme-border rounded-2xl p-4 max-h-48 overflow-y-auto shrink-0">
+                  <div className="text-[10px] font-cinzel tracking-widest uppercase mb-2 flex items-center space-x-4">
+                    <span className={editorErrorCount > 0 ? 'text-red-500' : 'theme-faint'}>{editorErrorCount} Error{editorErrorCount === 1 ? '' : 's'}</span>
+                    <span className={editorWarningCount > 0 ? 'text-yellow-500' : 'theme-faint'}>{editorWarningCount} Warning{editorWarningCount === 1 ? '' : 's'}</span>
+                    {alignmentIssues.length > 0 && (
+                      <button 
+                        onClick={() => setShowAlignmentReport(v => !v)} 
+                        className={`ml-auto px-2 py-1 rounded-md border tracking-widest uppercase ${showAlignmentReport ? 'gold-text border-[color:color-mix(in_srgb,var(--theme-accent)_40%,transparent)] theme-tint' : 'theme-muted theme-border hover:text-[color:var(--theme-text)]'}`}
+                      >
+                        Alignment Report ({alignmentIssues.length})
+                      </button>
+                    )}
+                  </div>
+                  {showAlignmentReport && alignmentIssues.length > 0 ? alignmentIssues.map(issue => (
+                    <button 
+                      key={`${issue.partId}-${issue.line}`} 
+                      onClick={() => jumpToLine(issue.line)} 
+                      className="w-full flex items-center text-left py-1.5 px-2 rounded-lg hover:bg-[color:var(--theme-tint)] text-xs font-mono"
+                    >
+                      <span className="theme-faint mr-3 shrink-0">Ln {issue.line}</span>
+                      <span className="theme-text truncate mr-3">{issue.bookTitle} › {issue.sectionTitle}</span>
+                      <span className="ml-auto flex space-x-1 shrink-0">
+                        {Object.entries(issue.rowCounts).map(([lang, count]) => (
+                          <span key={lang} className="px-1.5 theme-tint rounded text-[10px] theme-muted">{lang} {count}</span>
+                        ))}
+                      </span>
+                    </button>
+                  )) : editorDiagnostics.map((diag, idx) => (
+                    <button 
+                      key={idx} 
+                      onClick={() => jumpToDiagnostic(diag)} 
+                      className="w-full flex items-start text-left py-1.5 px-2 rounded-lg hover:bg-[color:var(--theme-tint)] text-xs font-mono"
+                    >
+                      {diag.severity === 'error' 
+                        ? <XCircle size={14} className="text-red-500 mr-2 mt-0.5 shrink-0" /> 
+                        : <AlertTriangle size={14} className="text-yellow-500 mr-2 mt-0.5 shrink-0" />}
+                      <span className="theme-faint mr-3 shrink-0">Ln {diag.line}, Col {diag.column}</span>
+                      <span className="theme-text">{diag.message}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
           </motion.div>
         )}
@@ -420,7 +1004,7 @@ const App: React.FC = () => {
 
       <AnimatePresence>
         {(sidebarOpen || headerOpen) && (
-          <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={() => { setSidebarOpen(false); setHeaderOpen(false); setIsSearchExpanded(false); }} className="fixed inset-0 z-[55] bg-black/60 backdrop-blur-[2px] pointer-events-auto" />
+          <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={() => { setSidebarOpen(false); setHeaderOpen(false); setIsSearchExpanded(false); setIsRemotePanelOpen(false); setIsThemePanelOpen(false); }} className="fixed inset-0 z-[55] bg-black/60 backdrop-blur-[2px] pointer-events-auto" />
         )}
       </AnimatePresence>
     </div>
@@ -0,0 +1,77 @@
+import React, { useRef, useState } from 'react';
+import { Language } from '../types';
+import { BibleService } from '../services/bibleService';
+import { getLanguageDef } from '../constants';
+import { BookOpen, Upload, Trash2 } from 'lucide-react';
+
+interface BiblePanelProps {
+  status: ReturnType<typeof BibleService.getStatus>;
+  onImport: (lang: Language, file: File) => Promise<void>; // Both reject with a message for the user
+  onRemove: (lang: Language) => Promise<void>;
+}
+
+/**
+ * Editor card listing the Bible texts behind @scripture and @readings. An imported file
+ * stands in for a language the deployment does not ship, or replaces the bundled one.
+ */
+export const BiblePanel: React.FC<BiblePanelProps> = ({ status, onImport, onRemove }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importLang, setImportLang] = useState<Language | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const chooseFile = (lang: Language) => {
+    setImportLang(lang);
+    fileInputRef.current?.click();
+  };
+
+  const run = async (lang: Language, action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(`${getLanguageDef(lang).name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Cleared so choosing the same file again still fires a change
+    e.target.value = '';
+    if (file && importLang) run(importLang, () => onImport(importLang, file));
+  };
+
+  return (
+    <div className="theme-tint border theme-border rounded-2xl p-6 mb-8">
+      <label className="text-[10px] font-cinzel gold-text tracking-widest uppercase mb-3 flex items-center">
+        <BookOpen size={14} className="mr-2" /> Bible Texts for @scripture and @readings
+      </label>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {status.map(({ lang, source, books }) => (
+          <div key={lang} className="flex items-center justify-between theme-field border theme-border rounded-xl py-2 px-3">
+            <div className="min-w-0">
+              <div className="text-xs theme-text truncate">{getLanguageDef(lang).name}</div>
+              <div className="text-[10px] theme-muted">
+                {source === null ? 'Not loaded' : `${books} book${books === 1 ? '' : 's'}, ${source}`}
+              </div>
+            </div>
+            <div className="flex items-center space-x-1 shrink-0">
+              <button onClick={() => chooseFile(lang)} title="Import a JSON Bible file" className="p-2 theme-muted hover:gold-text">
+                <Upload size={14} />
+              </button>
+              {source === 'imported' && (
+                <button onClick={() => run(lang, () => onRemove(lang))} title="Remove the imported file" className="p-2 theme-muted hover:text-red-500">
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] theme-faint mt-3">
+        JSON shaped {'{ "Gen": { "1": ["In the beginning…", …] }, … }'}, with the book codes of the references (Gen, Ps, Mt, 1 Cor, …).
+      </p>
+      {error && <p className="text-[11px] text-red-500 mt-2">{error}</p>}
+      <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { LibraryItem, AppSettings, SlidePosition } from '../types';
+import { Reader } from './Reader';
+import { DisplaySync } from '../services/displaySync';
+import { ContentService } from '../services/contentService';
+import { ThemeService } from '../services/themeService';
+
+/**
+ * The audience window at /display: just the slide, following the operator window.
+ * It has no library of its own until the operator answers its hello.
+ */
+export const Display: React.FC = () => {
+  const [library, setLibrary] = useState<LibraryItem[]>([]);
+  const [bookId, setBookId] = useState('');
+  const [position, setPosition] = useState<SlidePosition | null>(null);
+  const [blackout, setBlackout] = useState(false);
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = DisplaySync.subscribe(message => {
+      if (message.type === 'library') setLibrary(message.library);
+      else if (message.type === 'settings') setSettings(message.settings);
+      else if (message.type === 'slide') {
+        setBookId(message.bookId);
+        setPosition(message.position);
+        setBlackout(message.blackout);
+      }
+    });
+    DisplaySync.post({ type: 'hello' });
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    document.title = 'Additional Coptic Parts — Display';
+  }, []);
+
+  // The theme arrives with the operator's settings, not from this window's storage
+  useEffect(() => {
+    if (settings) ThemeService.apply(ThemeService.resolve(settings));
+  }, [settings]);
+
+  const book = useMemo(() => ContentService.findBook(library, bookId), [library, bookId]);
+
+  // The popup opens windowed; a double click takes it full screen on whichever screen it sits
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) document.exitFullscreen();
+    else document.documentElement.requestFullscreen().catch(() => {});
+  };
+
+  if (!settings) return (
+    <div className="h-screen theme-surface flex flex-col items-center justify-center space-y-4">
+      <div className="w-12 h-12 border-t-2 border-[color:var(--theme-accent)] border-r-2 border-transparent rounded-full animate-spin"></div>
+      <div className="gold-text font-cinzel text-lg tracking-[0.2em] uppercase">Waiting for the Operator</div>
+    </div>
+  );
+
+  return (
+    <div onDoubleClick={toggleFullscreen} className="relative h-screen w-screen overflow-hidden theme-surface theme-text">
+      <Reader
+        book={book}
+        library={library}
+        settings={settings}
+        targetSectionId={null}
+        targetPartIndex={null}
+        onTargetReached={() => {}}
+        onOverflow={() => {}}
+        position={position}
+        blackout={blackout}
+        audience
+      />
+    </div>
+  );
+};
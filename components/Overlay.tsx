@@ -0,0 +1,105 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { LibraryItem, AppSettings, SlidePosition, SlideBand, Language } from '../types';
+import { Reader } from './Reader';
+import { DisplaySync } from '../services/displaySync';
+import { ContentService } from '../services/contentService';
+import { isKnownLanguage } from '../constants';
+
+const CHROMA_GREEN = '#00b140';
+
+interface OverlayOptions {
+  languages: Language[] | null; // null keeps the operator's
+  fontSize: number | null; // Likewise
+  band: SlideBand;
+  background: 'transparent' | 'green';
+}
+
+/**
+ * Reads the browser-source URL, e.g. /overlay?lang=EN,COP&position=bottom&size=40&bg=green&lines=3
+ */
+const parseOverlayOptions = (search: string): OverlayOptions => {
+  const params = new URLSearchParams(search);
+  const languages = (params.get('lang') || '')
+    .split(',')
+    .map(code => code.trim().toUpperCase())
+    .filter(isKnownLanguage);
+  const fontSize = Number(params.get('size'));
+  const lines = Number(params.get('lines'));
+  return {
+    languages: languages.length > 0 ? languages : null,
+    fontSize: fontSize >= 8 && fontSize <= 200 ? fontSize : null,
+    band: {
+      position: params.get('position') === 'top' ? 'top' : 'bottom',
+      maxLines: lines >= 1 && lines <= 20 ? Math.floor(lines) : 3
+    },
+    background: params.get('bg') === 'green' ? 'green' : 'transparent'
+  };
+};
+
+/**
+ * The livestream overlay at /overlay: the operator's current stanza as a lower third over
+ * a see-through or chroma-green page. It follows the operator over BroadcastChannel, which
+ * only reaches windows of the same browser, so it has to be opened there (and captured, or
+ * keyed on the green); a browser source inside OBS is a browser of its own.
+ */
+export const Overlay: React.FC = () => {
+  const options = useMemo(() => parseOverlayOptions(window.location.search), []);
+  const [library, setLibrary] = useState<LibraryItem[]>([]);
+  const [bookId, setBookId] = useState('');
+  const [position, setPosition] = useState<SlidePosition | null>(null);
+  const [blackout, setBlackout] = useState(false);
+  const [operatorSettings, setOperatorSettings] = useState<AppSettings | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = DisplaySync.subscribe(message => {
+      if (message.type === 'library') setLibrary(message.library);
+      else if (message.type === 'settings') setOperatorSettings(message.settings);
+      else if (message.type === 'slide') {
+        setBookId(message.bookId);
+        setPosition(message.position);
+        setBlackout(message.blackout);
+      }
+    });
+    DisplaySync.post({ type: 'hello' });
+    return unsubscribe;
+  }, []);
+
+  // The page itself must be see-through (or keyed green) for the video to show around the band
+  useEffect(() => {
+    const previous = document.body.style.backgroundColor;
+    document.body.style.backgroundColor = options.background === 'green' ? CHROMA_GREEN : 'transparent';
+    document.documentElement.style.backgroundColor = document.body.style.backgroundColor;
+    return () => {
+      document.body.style.backgroundColor = previous;
+      document.documentElement.style.backgroundColor = '';
+    };
+  }, [options.background]);
+
+  const settings = useMemo<AppSettings | null>(() => operatorSettings && {
+    ...operatorSettings,
+    languages: options.languages || operatorSettings.languages,
+    fontSize: options.fontSize || operatorSettings.fontSize
+  }, [operatorSettings, options]);
+
+  const book = useMemo(() => ContentService.findBook(library, bookId), [library, bookId]);
+
+  if (!settings) return null;
+
+  return (
+    <div className="relative h-screen w-screen overflow-hidden text-white">
+      <Reader
+        book={book}
+        library={library}
+        settings={settings}
+        targetSectionId={null}
+        targetPartIndex={null}
+        onTargetReached={() => {}}
+        onOverflow={() => {}}
+        position={position}
+        blackout={blackout}
+        band={options.band}
+        audience
+      />
+    </div>
+  );
+};
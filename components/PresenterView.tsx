@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { LibraryItem, AppSettings, ComputedSlide } from '../types';
+import { PRIMARY_LANGUAGES, SECONDARY_LANGUAGES, getLanguageDef } from '../constants';
+import { InlineMarkup } from '../services/inlineMarkup';
+import { Clock, MonitorUp, X } from 'lucide-react';
+
+interface PresenterViewProps {
+  book: LibraryItem | null;
+  settings: AppSettings;
+  current: ComputedSlide | null;
+  next: ComputedSlide | null;
+  onSelectSection: (sectionId: string) => void;
+  onOpenDisplay: () => void;
+  onClose: () => void;
+}
+
+/**
+ * The operator's side panel while presenting: the clock, what the audience sees now,
+ * what comes next, and the outline of the book to jump around in
+ */
+export const PresenterView: React.FC<PresenterViewProps> = ({
+  book,
+  settings,
+  current,
+  next,
+  onSelectSection,
+  onOpenDisplay,
+  onClose
+}) => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Languages on screen, in the order the Reader lays them out
+  const shownLangs = [...PRIMARY_LANGUAGES, ...SECONDARY_LANGUAGES].filter(l => settings.languages.includes(l));
+
+  const renderSlide = (slide: ComputedSlide | null, label: string) => (
+    <div className="theme-tint border theme-border rounded-2xl p-4 min-h-0 flex flex-col">
+      <div className="flex items-baseline justify-between mb-2">
+        <span className="text-[10px] font-cinzel gold-text font-bold tracking-widest uppercase">{label}</span>
+        {slide && slide.type === 'content' && (
+          <span className="text-[10px] font-cinzel theme-faint">{slide.slideIndex} / {slide.totalSlidesInSection}</span>
+        )}
+      </div>
+      {!slide ? (
+        <div className="text-xs theme-faint italic">End of book</div>
+      ) : slide.type === 'title' ? (
+        <div className="text-sm font-cinzel gold-text font-bold tracking-wider uppercase">{slide.sectionTitle}</div>
+      ) : (
+        <div className="overflow-y-auto space-y-2">
+          {slide.partTitle && (
+            <div className="text-[10px] font-cinzel theme-muted uppercase tracking-wider truncate">
+              {shownLangs.map(l => slide.partTitle![l]).find(Boolean)}
+            </div>
+          )}
+          {shownLangs.filter(l => slide.content?.[l]?.some(Boolean)).map(lang => {
+            const def = getLanguageDef(lang);
+            return (
+              <div key={lang} dir={def.direction} className={`text-xs leading-relaxed theme-text ${def.fontClass} ${def.direction === 'rtl' ? 'text-right' : ''}`}>
+                {slide.content![lang]!.filter(Boolean).map(text => InlineMarkup.strip(text)).join(' · ')}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="h-full theme-panel backdrop-blur-xl border-l theme-divider shadow-2xl flex flex-col p-4 pb-24 space-y-4 overflow-hidden">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 gold-text">
+          <Clock size={16} />
+          <span className="font-cinzel text-2xl font-bold tracking-wider tabular-nums">
+            {now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+          </span>
+        </div>
+        <div className="flex items-center space-x-1">
+          <button onClick={onOpenDisplay} className="p-2 theme-muted hover:gold-text" title="Open the audience display window">
+            <MonitorUp size={18} />
+          </button>
+          <button onClick={onClose} className="p-2 theme-muted hover:text-[color:var(--theme-text)]" title="Close presenter view">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      {renderSlide(current, 'Now')}
+      {renderSlide(next, 'Next')}
+
+      <div className="flex-1 min-h-0 flex flex-col">
+        <span className="text-[10px] font-cinzel gold-text font-bold tracking-widest uppercase mb-2">Outline</span>
+        <div className="overflow-y-auto space-y-0.5">
+          {book?.sections?.map(section => (
+            <button
+              key={section.id}
+              onClick={() => onSelectSection(section.id)}
+              className={`w-full text-left px-3 py-2 rounded-lg text-xs truncate ${current?.sectionId === section.id ? 'theme-tint-strong gold-text' : 'theme-muted hover:bg-[color:var(--theme-tint)] hover:text-[color:var(--theme-text)]'}`}
+            >
+              {section.title}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,35 +1,41 @@
 import React, { useState, useMemo, useRef, useLayoutEffect, useEffect } from 'react';
-import { LibraryItem, Language, AppSettings } from '../types.ts';
+import { LibraryItem, Language, AppSettings, SpeakerRole, SlidePosition, ComputedSlide, SlideStep, SlideBand } from '../types.ts';
+import { PRIMARY_LANGUAGES, SECONDARY_LANGUAGES, getLanguageDef } from '../constants.tsx';
+import { InlineMarkup } from '../services/inlineMarkup.ts';
+import { Lectionary } from '../services/lectionary.ts';
+import { TextLayout } from '../services/textLayout.ts';
+import { SlidePagination } from '../services/slidePagination.ts';
 
 interface ReaderProps {
   book: LibraryItem | null;
+  library: LibraryItem[]; // Searched for the texts of @readings
   settings: AppSettings;
   targetSectionId: string | null;
   targetPartIndex: number | null;
   onTargetReached: () => void;
   onOverflow: (overflowing: boolean) => void;
-}
-
-interface ComputedSlide {
-  id: string;
-  type: 'title' | 'content';
-  sectionTitle: string;
-  sectionId: string;
-  partIndex: number;
-  subSlideIndex: number;
-  totalSubSlides: number;
-  content?: { [key in Language]?: string[] };
-  slideIndex: number;
-  totalSlidesInSection: number;
+  onSlideChange?: (slide: ComputedSlide, next: ComputedSlide | null) => void;
+  position?: SlidePosition | null; // Followed whenever it changes, e.g. the operator's slide in a display window
+  audience?: boolean; // Output only: no indicator, hints or click and key navigation
+  step?: SlideStep | null; // Applied once per id, like a key press
+  blackout?: boolean; // Shows nothing, keeping the position
+  band?: SlideBand | null; // Lay out in a strip of a see-through page, for an `audience` overlay
 }
 
 export const Reader: React.FC<ReaderProps> = ({ 
   book, 
+  library,
   settings, 
   targetSectionId, 
   targetPartIndex, 
   onTargetReached, 
-  onOverflow 
+  onOverflow,
+  onSlideChange,
+  position = null,
+  audience = false,
+  step = null,
+  blackout = false,
+  band = null
 }) => {
   const [currentSlideIndex, setCurrentSlideIndex] = useState(0);
   const [dimensions, setDimensions] = useState({ 
@@ -37,13 +43,18 @@ export const Reader: React.FC<ReaderProps> = ({
     height: typeof window !== 'undefined' ? window.innerHeight : 768 
   });
 
+  // Bumped when web fonts arrive, since the slides were measured with their fallbacks
+  const [fontsVersion, setFontsVersion] = useState(0);
+
+  const readingTexts = useMemo(() => Lectionary.indexTexts(library), [library]);
+
   const containerRef = useRef<HTMLDivElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
   const lastBookIdRef = useRef<string | null>(null);
-  const lastPositionRef = useRef<{ sectionId: string; partIndex: number; subSlideIndex: number; isTitle: boolean } | null>(null);
+  const lastPositionRef = useRef<SlidePosition | null>(null);
 
-  const primaryLangs = [Language.ENGLISH, Language.COPTIC, Language.ARABIC];
-  const secondaryLangs = [Language.TRANSLITERATED_ENGLISH, Language.TRANSLITERATED_ARABIC];
+  const primaryLangs = PRIMARY_LANGUAGES;
+  const secondaryLangs = SECONDARY_LANGUAGES;
 
   // Track window and container dimensions
   useLayoutEffect(() => {
@@ -70,334 +81,55 @@ export const Reader: React.FC<ReaderProps> = ({
     };
   }, []);
 
-  /**
-   * Column width footprints for balanced layout
-   */
-  const getLangHorizontalFootprint = (lang: Language) => {
-    switch (lang) {
-      case Language.COPTIC: return 2.0; 
-      case Language.ARABIC: return 1.5;
-      case Language.TRANSLITERATED_ARABIC: return 1.35; 
-      case Language.TRANSLITERATED_ENGLISH: return 1.1;
-      default: return 1.1;
-    }
-  };
+  useEffect(() => TextLayout.onFontsLoaded(() => setFontsVersion(v => v + 1)), []);
 
-  const getScaledFontSize = (lang: Language, baseSize: number) => {
-    switch (lang) {
-      case Language.COPTIC: return baseSize * 1.25; 
-      case Language.ARABIC: 
-      case Language.TRANSLITERATED_ARABIC: return baseSize * 1.15; 
-      default: return baseSize; 
-    }
-  };
+  const allSlides = useMemo(() => {
+    if (!book) return [];
+    const frame = SlidePagination.frame(dimensions, window.innerWidth >= 768, band, settings.fontSize);
+    return SlidePagination.paginate(book, settings, frame, readingTexts, band);
+  }, [book, settings, dimensions, readingTexts, band, fontsVersion]);
 
   /**
-   * Estimates the rendered pixel height of row `r` within `content`
-   * based on font scale, line counts, and available horizontal column widths.
+   * Index of the slide at `pos`: the sub-slide of the part showing the same first row,
+   * else the same sub-slide, else the part's first sub-slide, else the section's first slide
    */
-  const estimateRowHeight = (
-    r: number, 
-    content: { [key in Language]?: string[] }, 
-    currentSettings: AppSettings, 
-    containerWidth: number
-  ): number => {
-    // Leave horizontal margin padding (px-3/px-6)
-    const effectiveWidth = Math.max(280, containerWidth - 48);
-    
-    // Active primary languages in this part
-    const slideActivePrimary = primaryLangs.filter(l => 
-      currentSettings.languages.includes(l) && content[l]?.some(t => Boolean(t && t.trim()))
-    );
-    
-    const pressure = Math.pow(currentSettings.fontSize / 22, 1.2);
-    const primaryWeights = slideActivePrimary.map(l => {
-      const stanzas = content[l] || [];
-      const maxLen = stanzas.reduce((m, s) => Math.max(m, s ? s.length : 0), 0);
-      const footprint = getLangHorizontalFootprint(l);
-      return Math.max(80, maxLen * footprint * pressure);
-    });
-    const totalWeight = primaryWeights.reduce((a, b) => a + b, 0) || 1;
-
-    let maxPrimaryH = 0;
-    const totalGap = (slideActivePrimary.length - 1) * 16;
-    const usablePrimaryW = Math.max(100, effectiveWidth - totalGap);
-
-    slideActivePrimary.forEach((l, idx) => {
-      const text = content[l]?.[r] || '';
-      if (!text) return;
-      
-      const colPx = Math.max(80, usablePrimaryW * (primaryWeights[idx] / totalWeight));
-      const scaledFont = getScaledFontSize(l, currentSettings.fontSize);
-      
-      let charWidthFactor = 0.44;
-      let lineHeightFactor = 1.28;
-      if (l === Language.COPTIC) {
-        charWidthFactor = 0.48;
-        lineHeightFactor = 1.30;
-      } else if (l === Language.ARABIC) {
-        charWidthFactor = 0.44;
-        lineHeightFactor = 1.40;
-      }
-      
-      const approxCharWidth = Math.max(5, scaledFont * charWidthFactor);
-      const charsPerLine = Math.max(1, Math.floor(colPx / approxCharWidth));
-      
-      const words = text.split(/\s+/).filter(Boolean);
-      let lines = 1;
-      let currentLineLen = 0;
-      words.forEach(w => {
-        if (currentLineLen + w.length + 1 > charsPerLine) {
-          lines++;
-          currentLineLen = w.length;
-        } else {
-          currentLineLen += (currentLineLen === 0 ? w.length : w.length + 1);
-        }
-      });
-      
-      const colHeight = lines * (scaledFont * lineHeightFactor);
-      if (colHeight > maxPrimaryH) maxPrimaryH = colHeight;
-    });
-
-    // Active secondary languages (transliterations)
-    const slideActiveSecondary = secondaryLangs.filter(l => 
-      currentSettings.languages.includes(l) && content[l]?.some(t => Boolean(t && t.trim()))
-    );
-    let maxSecondaryH = 0;
-    if (slideActiveSecondary.length > 0) {
-      const secColPx = (effectiveWidth - (slideActiveSecondary.length - 1) * 12) / slideActiveSecondary.length;
-      slideActiveSecondary.forEach(l => {
-        const text = content[l]?.[r] || '';
-        if (!text) return;
-        const scaledFont = getScaledFontSize(l, currentSettings.fontSize);
-        const approxCharWidth = Math.max(4.5, scaledFont * 0.42);
-        const charsPerLine = Math.max(1, Math.floor(secColPx / approxCharWidth));
-        const words = text.split(/\s+/).filter(Boolean);
-        let lines = 1;
-        let currentLineLen = 0;
-        words.forEach(w => {
-          if (currentLineLen + w.length + 1 > charsPerLine) {
-            lines++;
-            currentLineLen = w.length;
-          } else {
-            currentLineLen += (currentLineLen === 0 ? w.length : w.length + 1);
-          }
-        });
-        const colHeight = lines * (scaledFont * 1.25);
-        if (colHeight > maxSecondaryH) maxSecondaryH = colHeight;
+  const findSlideIndex = (pos: SlidePosition): number => {
+    const { sectionId, partIndex, partKey, subSlideIndex, firstRow, isTitle } = pos;
+    if (isTitle) {
+      return allSlides.findIndex(s => s.sectionId === sectionId && s.type === 'title');
+    }
+    // The readings of one @readings part share its index, so the key picks the reading
+    const isSamePart = (s: ComputedSlide) =>
+      s.sectionId === sectionId && s.partIndex === partIndex && (partKey === undefined || s.partKey === partKey);
+    let targetIdx = -1;
+    if (firstRow !== undefined) {
+      // The sub-slide showing that row, when this pagination breaks the part elsewhere
+      allSlides.forEach((s, idx) => {
+        if (!isSamePart(s) || s.firstRow > firstRow) return;
+        if (targetIdx === -1 || s.firstRow > allSlides[targetIdx].firstRow) targetIdx = idx;
       });
     }
-
-    return Math.max(28, maxPrimaryH + (maxSecondaryH > 0 ? maxSecondaryH + 6 : 0));
-  };
-
-  /**
-   * Helper to split a long single row into multiple text chunks if it exceeds slide height on its own
-   */
-  const splitSingleRowIntoChunks = (
-    content: { [key in Language]?: string[] }, 
-    rowIndex: number, 
-    numChunks: number
-  ): { [key in Language]?: string[] }[] => {
-    const chunkedList: { [key in Language]?: string[] }[] = Array.from({ length: numChunks }, () => ({}));
-    
-    (Object.keys(content) as Language[]).forEach(lang => {
-      const fullText = content[lang]?.[rowIndex] || '';
-      if (!fullText) return;
-      
-      const words = fullText.split(/\s+/).filter(Boolean);
-      if (words.length <= numChunks) {
-        chunkedList[0][lang] = [fullText];
-        return;
-      }
-      
-      const wordsPerChunk = Math.ceil(words.length / numChunks);
-      for (let c = 0; c < numChunks; c++) {
-        const chunkWords = words.slice(c * wordsPerChunk, (c + 1) * wordsPerChunk);
-        if (chunkWords.length > 0) {
-          chunkedList[c][lang] = [chunkWords.join(' ')];
-        }
-      }
-    });
-
-    return chunkedList.filter(c => Object.keys(c).length > 0);
+    if (targetIdx === -1) {
+      targetIdx = allSlides.findIndex(s => isSamePart(s) && s.subSlideIndex === subSlideIndex);
+    }
+    if (targetIdx === -1) {
+      targetIdx = allSlides.findIndex(s => 
+        s.sectionId === sectionId && 
+        s.partIndex === partIndex
+      );
+    }
+    if (targetIdx === -1) {
+      targetIdx = allSlides.findIndex(s => s.sectionId === sectionId);
+    }
+    return targetIdx;
   };
 
-  /**
-   * DYNAMIC OVERFLOW PAGINATION ENGINE:
-   * Generates slides where text fills the full viewing area down to right above
-   * the "Size" (bottom-left) and "View/Slide" (bottom-right) cards before carrying over.
-   */
-  const allSlides = useMemo(() => {
-    if (!book || !book.sections) return [];
-    const computed: ComputedSlide[] = [];
-    
-    // Top clearance: ~24px, Bottom clearance for Size & View cards: ~96px -> total ~120px
-    const availableHeight = Math.max(160, dimensions.height - 120);
-
-    book.sections.forEach(section => {
-      const sectionSlides: ComputedSlide[] = [];
-
-      // Section Title Slide
-      const titleSlide: ComputedSlide = {
-        id: `title-${section.id}`,
-        type: 'title',
-        sectionTitle: section.title,
-        sectionId: section.id,
-        partIndex: -1,
-        subSlideIndex: 0,
-        totalSubSlides: 1,
-        slideIndex: 0,
-        totalSlidesInSection: 0,
-      };
-      sectionSlides.push(titleSlide);
-
-      // Section Content Parts
-      section.parts.forEach((part, partIdx) => {
-        const totalRows = (Object.values(part.content) as (string[] | undefined)[]).reduce(
-          (max: number, arr) => Math.max(max, arr?.length || 0), 
-          0
-        );
-
-        if (totalRows === 0) {
-          sectionSlides.push({
-            id: `content-${section.id}-${partIdx}-0`,
-            type: 'content',
-            sectionTitle: section.title,
-            sectionId: section.id,
-            partIndex: partIdx,
-            subSlideIndex: 0,
-            totalSubSlides: 1,
-            content: part.content,
-            slideIndex: 0,
-            totalSlidesInSection: 0,
-          });
-          return;
-        }
-
-        // Pack rows into sub-slides
-        const subSlidesContent: { [key in Language]?: string[] }[] = [];
-        let currentSlideRows: number[] = [];
-        let currentSlideH = 0;
-        const rowGap = 24; // Space between rows
-
-        for (let r = 0; r < totalRows; r++) {
-          const rowH = estimateRowHeight(r, part.content, settings, dimensions.width);
-
-          // If a single row is larger than available height by itself
-          if (rowH > availableHeight) {
-            // Push previous accumulated rows if any
-            if (currentSlideRows.length > 0) {
-              const slideContent: { [key in Language]?: string[] } = {};
-              (Object.keys(part.content) as Language[]).forEach(lang => {
-                slideContent[lang] = currentSlideRows
-                  .map(i => part.content[lang]?.[i])
-                  .filter((t): t is string => Boolean(t && t.trim()));
-              });
-              subSlidesContent.push(slideContent);
-              currentSlideRows = [];
-              currentSlideH = 0;
-            }
-
-            // Split this huge row across multiple sub-slides
-            const numChunks = Math.max(2, Math.ceil(rowH / availableHeight));
-            const chunks = splitSingleRowIntoChunks(part.content, r, numChunks);
-            chunks.forEach(chunk => {
-              subSlidesContent.push(chunk);
-            });
-            continue;
-          }
-
-          const addedH = currentSlideRows.length === 0 ? rowH : rowH + rowGap;
-          if (currentSlideRows.length > 0 && currentSlideH + addedH > availableHeight) {
-            // Push current slide and start a new one for overflow
-            const slideContent: { [key in Language]?: string[] } = {};
-            (Object.keys(part.content) as Language[]).forEach(lang => {
-              slideContent[lang] = currentSlideRows
-                .map(i => part.content[lang]?.[i])
-                .filter((t): t is string => Boolean(t && t.trim()));
-            });
-            subSlidesContent.push(slideContent);
-            currentSlideRows = [r];
-            currentSlideH = rowH;
-          } else {
-            currentSlideRows.push(r);
-            currentSlideH += addedH;
-          }
-        }
-
-        if (currentSlideRows.length > 0) {
-          const slideContent: { [key in Language]?: string[] } = {};
-          (Object.keys(part.content) as Language[]).forEach(lang => {
-            slideContent[lang] = currentSlideRows
-              .map(i => part.content[lang]?.[i])
-              .filter((t): t is string => Boolean(t && t.trim()));
-          });
-          subSlidesContent.push(slideContent);
-        }
-
-        // Add sub-slides to sectionSlides
-        const totalSubSlides = Math.max(1, subSlidesContent.length);
-        subSlidesContent.forEach((subContent, subIdx) => {
-          sectionSlides.push({
-            id: `content-${section.id}-${partIdx}-${subIdx}`,
-            type: 'content',
-            sectionTitle: section.title,
-            sectionId: section.id,
-            partIndex: partIdx,
-            subSlideIndex: subIdx,
-            totalSubSlides,
-            content: subContent,
-            slideIndex: 0,
-            totalSlidesInSection: 0,
-          });
-        });
-      });
-
-      // Update slideIndex and totalSlidesInSection
-      const contentSlidesCount = sectionSlides.filter(s => s.type === 'content').length;
-      let contentIndexCounter = 1;
-
-      sectionSlides.forEach(slide => {
-        slide.totalSlidesInSection = contentSlidesCount;
-        if (slide.type === 'content') {
-          slide.slideIndex = contentIndexCounter++;
-        } else {
-          slide.slideIndex = 0;
-        }
-        computed.push(slide);
-      });
-    });
-
-    return computed;
-  }, [book, settings, dimensions]);
-
   // Preserve user position across font size / layout recalculations
   useEffect(() => {
     if (allSlides.length === 0) return;
 
     if (lastPositionRef.current) {
-      const { sectionId, partIndex, subSlideIndex, isTitle } = lastPositionRef.current;
-      let targetIdx = -1;
-      if (isTitle) {
-        targetIdx = allSlides.findIndex(s => s.sectionId === sectionId && s.type === 'title');
-      } else {
-        targetIdx = allSlides.findIndex(s => 
-          s.sectionId === sectionId && 
-          s.partIndex === partIndex && 
-          s.subSlideIndex === subSlideIndex
-        );
-        if (targetIdx === -1) {
-          targetIdx = allSlides.findIndex(s => 
-            s.sectionId === sectionId && 
-            s.partIndex === partIndex
-          );
-        }
-        if (targetIdx === -1) {
-          targetIdx = allSlides.findIndex(s => s.sectionId === sectionId);
-        }
-      }
-
+      const targetIdx = findSlideIndex(lastPositionRef.current);
       if (targetIdx !== -1 && targetIdx !== currentSlideIndex) {
         setCurrentSlideIndex(targetIdx);
         return;
@@ -417,16 +149,35 @@ export const Reader: React.FC<ReaderProps> = ({
       lastPositionRef.current = {
         sectionId: safeSlide.sectionId,
         partIndex: safeSlide.partIndex,
+        partKey: safeSlide.partKey,
         subSlideIndex: safeSlide.subSlideIndex,
+        firstRow: safeSlide.firstRow,
         isTitle: safeSlide.type === 'title'
       };
+      onSlideChange?.(safeSlide, allSlides[currentSlideIndex + 1] || null);
     }
   }, [safeSlide]);
 
+  // Follow a position driven from outside, such as the operator window
+  useEffect(() => {
+    if (!position || allSlides.length === 0) return;
+    const targetIdx = findSlideIndex(position);
+    if (targetIdx !== -1) setCurrentSlideIndex(targetIdx);
+  }, [position, allSlides]);
+
+  const stepSlide = (by: number) => {
+    setCurrentSlideIndex(prev => Math.max(0, Math.min(allSlides.length - 1, prev + by)));
+  };
+
+  useEffect(() => {
+    if (step) stepSlide(step.step);
+  }, [step]);
+
   /**
    * Keyboard Navigation (Left, Right, Space, PageUp, PageDown)
    */
   useEffect(() => {
+    if (audience) return;
     const handleKeyDown = (e: KeyboardEvent) => {
       const activeEl = document.activeElement;
       if (activeEl && (activeEl.tagName === 'INPUT' || activeEl.tagName === 'TEXTAREA' || activeEl.getAttribute('contenteditable') === 'true')) {
@@ -435,10 +186,10 @@ export const Reader: React.FC<ReaderProps> = ({
 
       if (e.key === 'ArrowRight' || e.key === 'ArrowDown' || e.key === ' ' || e.key === 'PageDown') {
         e.preventDefault();
-        setCurrentSlideIndex(prev => Math.min(allSlides.length - 1, prev + 1));
+        stepSlide(1);
       } else if (e.key === 'ArrowLeft' || e.key === 'ArrowUp' || e.key === 'PageUp') {
         e.preventDefault();
-        setCurrentSlideIndex(prev => Math.max(0, prev - 1));
+        stepSlide(-1);
       } else if (e.key === 'Home') {
         e.preventDefault();
         setCurrentSlideIndex(0);
@@ -450,37 +201,20 @@ export const Reader: React.FC<ReaderProps> = ({
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [allSlides.length]);
+  }, [allSlides.length, audience]);
 
   /**
-   * Dynamic column width calculations for active primary languages
+   * Column widths for active primary languages, as the part was paginated with
    */
   const currentColumnWidths = useMemo(() => {
     if (!safeSlide || safeSlide.type === 'title') return {};
-    
-    const slideActivePrimary = primaryLangs.filter(l => 
-      settings.languages.includes(l) && 
-      safeSlide.content?.[l]?.some(text => text && text.trim())
-    );
-
-    const pressure = Math.pow(settings.fontSize / 22, 1.2);
-
-    const primaryWeights = slideActivePrimary.map(l => {
-      const stanzas = safeSlide.content?.[l] || [];
-      const maxStanzaLength = stanzas.reduce((max, s) => Math.max(max, s ? s.length : 0), 0);
-      const footprint = getLangHorizontalFootprint(l);
-      return Math.max(80, maxStanzaLength * footprint * pressure);
-    });
-
-    const totalWeight = primaryWeights.reduce((a, b) => a + b, 0) || 1;
+    const weights = safeSlide.columnWeights || {};
     const widths: { [key: string]: string } = {};
-    
-    slideActivePrimary.forEach((l, i) => {
-      widths[l] = `${(primaryWeights[i] / totalWeight) * 100}fr`;
+    (Object.keys(weights) as Language[]).forEach(l => {
+      widths[l] = `${weights[l]}fr`;
     });
-
     return widths;
-  }, [safeSlide, settings.languages, settings.fontSize]);
+  }, [safeSlide]);
 
   const activePrimary = useMemo(() => {
     if (!safeSlide || safeSlide.type === 'title') return [];
@@ -543,37 +277,43 @@ export const Reader: React.FC<ReaderProps> = ({
   }, [book?.id, targetSectionId, targetPartIndex, allSlides, onTargetReached]);
 
   const handleNav = (e: React.MouseEvent) => {
+    if (audience) return;
     const { clientX, currentTarget } = e;
     const { width } = currentTarget.getBoundingClientRect();
-    if (clientX < width / 3) {
-      setCurrentSlideIndex(prev => Math.max(0, prev - 1));
-    } else {
-      setCurrentSlideIndex(prev => Math.min(allSlides.length - 1, prev + 1));
-    }
+    stepSlide(clientX < width / 3 ? -1 : 1);
   };
 
+  // Nothing to show: black on a screen, see-through in a band
+  if (blackout || (band && (!book || !safeSlide))) {
+    return <div className={`flex-1 h-screen ${band ? '' : 'bg-black'}`} />;
+  }
+
+  // A band sits at the top or bottom of the page, its text on a dark panel
+  const bandRootClass = `flex-1 flex flex-col h-screen relative overflow-hidden select-none cursor-none p-6 md:p-10 ${band?.position === 'top' ? 'justify-start' : 'justify-end'}`;
+  const bandPanelClass = 'w-full bg-[color:color-mix(in_srgb,var(--theme-bg)_75%,transparent)] rounded-2xl px-6 py-4 overflow-hidden';
+
   if (!book || !safeSlide) {
     return (
-      <div className="flex-1 flex flex-col bg-black animate-fadeIn relative h-screen w-screen overflow-hidden">
-        <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_#c5a05911_0%,_transparent_70%)] opacity-30" />
+      <div className="flex-1 flex flex-col theme-surface animate-fadeIn relative h-screen w-screen overflow-hidden">
+        <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_color-mix(in_srgb,var(--theme-accent)_7%,transparent)_0%,_transparent_70%)] opacity-30" />
         <div className="flex-1 flex flex-col items-center justify-center pt-16 px-8 text-center relative z-10">
-          <h1 className="text-2xl md:text-5xl font-cinzel gold-text font-bold tracking-[0.6em] mb-12 md:mb-20 uppercase drop-shadow-[0_0_15px_rgba(197,160,89,0.3)] leading-tight">
+          <h1 className="text-2xl md:text-5xl font-cinzel gold-text font-bold tracking-[0.6em] mb-12 md:mb-20 uppercase drop-shadow-[0_0_15px_color-mix(in_srgb,var(--theme-accent)_30%,transparent)] leading-tight">
             Additional Coptic Parts
           </h1>
           <div className="w-48 h-48 md:w-80 md:h-80 opacity-95 transition-transform duration-1000 hover:scale-105">
-            <svg viewBox="0 0 200 200" fill="none" xmlns="http://www.w3.org/2000/svg" className="w-full h-full drop-shadow-[0_0_40px_rgba(255,255,255,0.05)]">
-              <path d="M100 15V185M15 100H185" stroke="white" strokeWidth="4" strokeLinecap="round"/>
-              <path d="M100 15L85 35H115L100 15ZM100 185L85 165H115L100 185ZM15 100L35 85V115L15 100ZM185 100L165 85V115L185 100Z" fill="white"/>
-              <circle cx="100" cy="100" r="24" stroke="white" strokeWidth="3" fill="black"/>
-              <path d="M100 82V118M82 100H118" stroke="white" strokeWidth="2.5" strokeLinecap="round"/>
-              <path d="M100 82L94 88H106L100 82ZM100 118L94 112H106L100 118ZM82 100L88 94V106L82 100ZM118 100L112 94V106L118 100Z" fill="white"/>
-              <text x="45" y="55" fill="white" className="font-coptic text-[16px] font-bold">Ⲓⲏⲥ</text>
-              <text x="135" y="55" fill="white" className="font-coptic text-[16px] font-bold">Ⲡⲭⲥ</text>
-              <text x="35" y="155" fill="white" className="font-coptic text-[16px] font-bold">Ⲡ̀ϣⲏⲣⲓ</text>
-              <text x="135" y="155" fill="white" className="font-coptic text-[16px] font-bold">ⲙ̀ⲫϯ</text>
+            <svg viewBox="0 0 200 200" fill="none" xmlns="http://www.w3.org/2000/svg" className="w-full h-full theme-text drop-shadow-[0_0_40px_rgba(255,255,255,0.05)]">
+              <path d="M100 15V185M15 100H185" stroke="currentColor" strokeWidth="4" strokeLinecap="round"/>
+              <path d="M100 15L85 35H115L100 15ZM100 185L85 165H115L100 185ZM15 100L35 85V115L15 100ZM185 100L165 85V115L185 100Z" fill="currentColor"/>
+              <circle cx="100" cy="100" r="24" stroke="currentColor" strokeWidth="3" style={{ fill: 'var(--theme-bg)' }}/>
+              <path d="M100 82V118M82 100H118" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round"/>
+              <path d="M100 82L94 88H106L100 82ZM100 118L94 112H106L100 118ZM82 100L88 94V106L82 100ZM118 100L112 94V106L118 100Z" fill="currentColor"/>
+              <text x="45" y="55" fill="currentColor" className="font-coptic text-[16px] font-bold">Ⲓⲏⲥ</text>
+              <text x="135" y="55" fill="currentColor" className="font-coptic text-[16px] font-bold">Ⲡⲭⲥ</text>
+              <text x="35" y="155" fill="currentColor" className="font-coptic text-[16px] font-bold">Ⲡ̀ϣⲏⲣⲓ</text>
+              <text x="135" y="155" fill="currentColor" className="font-coptic text-[16px] font-bold">ⲙ̀ⲫϯ</text>
             </svg>
           </div>
-          <p className="mt-16 font-cinzel text-[10px] md:text-xs text-gray-500 tracking-[0.5em] uppercase opacity-30 animate-pulse">
+          <p className="mt-16 font-cinzel text-[10px] md:text-xs theme-muted tracking-[0.5em] uppercase opacity-30 animate-pulse">
             Select a book to begin
           </p>
         </div>
@@ -601,38 +341,56 @@ export const Reader: React.FC<ReaderProps> = ({
       .map(p => p.trim())
       .filter(Boolean);
 
+    if (band) {
+      return (
+        <div className={bandRootClass}>
+          <div className={`${bandPanelClass} text-center animate-fadeIn`}>
+            {titleParts.map((part, i) => {
+              const isArabic = /[\u0600-\u06FF]/.test(part);
+              const isCoptic = /[\u2C80-\u2CFF\u0370-\u03FF]/.test(part);
+              return (
+                <span
+                  key={i}
+                  dir={isArabic ? 'rtl' : 'ltr'}
+                  className={`inline-block mx-3 gold-text font-bold tracking-[0.15em] uppercase ${isArabic ? 'font-arabic' : isCoptic ? 'font-coptic' : 'font-cinzel'}`}
+                  style={{ fontSize: `${settings.fontSize}px` }}
+                >
+                  {part}
+                </span>
+              );
+            })}
+          </div>
+        </div>
+      );
+    }
+
     return (
-      <div onClick={handleNav} className="flex-1 flex flex-col h-screen bg-black relative overflow-hidden cursor-pointer select-none items-center justify-center p-8 pb-28">
-        <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_#c5a05908_0%,_transparent_70%)]" />
+      <div onClick={handleNav} className={`flex-1 flex flex-col h-screen theme-surface relative overflow-hidden select-none items-center justify-center p-8 pb-28 ${audience ? 'cursor-none' : 'cursor-pointer'}`}>
+        <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_color-mix(in_srgb,var(--theme-accent)_3%,transparent)_0%,_transparent_70%)]" />
         <div className="max-w-5xl text-center animate-fadeIn flex flex-col gap-6 md:gap-8">
-          <div className="w-24 h-[1px] bg-[#c5a059] mx-auto opacity-30" />
+          <div className="w-24 h-[1px] gold-bg mx-auto opacity-30" />
           {titleParts.map((part, i) => {
             const isArabic = /[\u0600-\u06FF]/.test(part);
             const isCoptic = /[\u2C80-\u2CFF\u0370-\u03FF]/.test(part);
             return (
               <React.Fragment key={i}>
                 {i > 0 && (
-                  <div className="w-16 h-[1px] bg-gradient-to-r from-transparent via-[#c5a059]/40 to-transparent mx-auto my-1" />
+                  <div className="w-16 h-[1px] bg-gradient-to-r from-transparent via-[color:var(--theme-accent)] to-transparent opacity-40 mx-auto my-1" />
                 )}
-                <h2 style={{
-                      fontFamily: isCoptic 
-                        ? "'FreeSerifAvvaShenouda', 'Free Serif Avva Shenouda', 'Coptic', serif" 
-                        : isArabic 
-                        ? "'Noto Naskh Arabic', 'Traditional Arabic', 'Times New Roman', Times, serif" 
-                        : undefined
-                    }}
-                    className={`text-3xl md:text-6xl gold-text font-bold tracking-[0.15em] uppercase leading-tight drop-shadow-2xl ${isArabic ? 'font-arabic' : isCoptic ? 'font-coptic' : 'font-cinzel'}`}
+                <h2 className={`text-3xl md:text-6xl gold-text font-bold tracking-[0.15em] uppercase leading-tight drop-shadow-2xl ${isArabic ? 'font-arabic' : isCoptic ? 'font-coptic' : 'font-cinzel'}`}
                     dir={isArabic ? 'rtl' : 'ltr'}>
                   {part}
                 </h2>
               </React.Fragment>
             );
           })}
-          <div className="w-24 h-[1px] bg-[#c5a059] mx-auto opacity-30" />
-        </div>
-        <div className="fixed bottom-24 left-1/2 -translate-x-1/2 opacity-20 font-cinzel text-[10px] tracking-[0.8em] gold-text uppercase animate-pulse">
-          Click to proceed
+          <div className="w-24 h-[1px] gold-bg mx-auto opacity-30" />
         </div>
+        {!audience && (
+          <div className="fixed bottom-24 left-1/2 -translate-x-1/2 opacity-20 font-cinzel text-[10px] tracking-[0.8em] gold-text uppercase animate-pulse">
+            Click to proceed
+          </div>
+        )}
       </div>
     );
   }
@@ -643,44 +401,95 @@ export const Reader: React.FC<ReaderProps> = ({
     0
   );
 
+  const partTitleLangs = band ? [] : settings.languages.filter(l => safeSlide.partTitle?.[l]);
+  // Smaller than the setting where a whole part was shrunk to fit
+  const slideFontSize = settings.fontSize * (safeSlide.fontScale || 1);
+  // Rubrics (instructions to the celebrants) are read, not sung: set them apart from the text
+  const isRubric = safeSlide.partType === 'instruction';
+
+  const renderInline = (text: string, rubricClass: string) => InlineMarkup.parse(text).map((run, i) => (
+    <span
+      key={i}
+      className={`${run.bold ? 'font-bold' : ''} ${run.rubric ? `italic ${rubricClass}` : ''} ${run.refrain ? 'gold-text font-semibold' : ''}`}
+    >
+      {run.text}
+    </span>
+  ));
+
+  // Verse numbers sit inline at the start of the row, in the reading direction of the column
+  const renderRowLabel = (label: string) => (
+    <span className="gold-text font-bold font-inter not-italic align-super text-[0.55em] mx-1">{label}</span>
+  );
+
+  const renderRoleLabel = (role: SpeakerRole, lang: Language) => {
+    const { roleLabels } = getLanguageDef(lang);
+    return (
+      <div 
+        className={`font-bold uppercase tracking-[0.2em] not-italic mb-1 ${SlidePagination.getHeadingFontClass(lang)}`}
+        style={{ fontSize: `${SlidePagination.getRoleLabelFontSize(slideFontSize)}px`, color: `var(--theme-role-${role})` }}
+      >
+        {roleLabels?.[role] || getLanguageDef(Language.ENGLISH).roleLabels![role]}
+      </div>
+    );
+  };
+
   return (
     <div 
       ref={containerRef} 
       onClick={handleNav} 
-      className="flex-1 flex flex-col h-screen bg-black relative overflow-hidden cursor-pointer select-none pt-4 px-3 md:pt-6 md:px-6 pb-28"
+      className={band ? bandRootClass : `flex-1 flex flex-col h-screen theme-surface relative overflow-hidden select-none pt-4 px-3 md:pt-6 md:px-6 pb-28 ${audience ? 'cursor-none' : 'cursor-pointer'}`}
     >
-      <div className="flex-1 flex flex-col items-center justify-start overflow-hidden">
+      <div className={band ? bandPanelClass : 'flex-1 flex flex-col items-center justify-start overflow-hidden'}>
         <div ref={contentRef} className="w-full max-w-full animate-fadeIn transition-all duration-300">
+          {partTitleLangs.length > 0 && (
+            <div className="mb-8 pb-3 border-b theme-divider flex flex-wrap items-baseline justify-center gap-x-8 gap-y-1">
+              {partTitleLangs.map(lang => {
+                return (
+                  <span
+                    key={`title-${lang}`}
+                    dir={getLanguageDef(lang).direction}
+                    className={`gold-text font-bold tracking-wide ${SlidePagination.getHeadingFontClass(lang)}`}
+                    style={{ fontSize: `${SlidePagination.getScaledFontSize(lang, slideFontSize) * 0.8}px` }}
+                  >
+                    {safeSlide.partTitle![lang]}
+                  </span>
+                );
+              })}
+            </div>
+          )}
           <div className="space-y-6 md:space-y-8">
-            {Array.from({ length: rowCount }).map((_, pIdx) => (
+            {Array.from({ length: rowCount }).map((_, pIdx) => {
+              const rowRole = safeSlide.roles?.[pIdx] || null;
+              const rowLabel = safeSlide.rowLabels?.[pIdx] || null;
+              return (
               <div key={`p-row-${pIdx}`} className="space-y-2">
                 {activePrimary.length > 0 && (
                   <div className="grid w-full items-stretch" style={getGridStyle(activePrimary)}>
                     {activePrimary.map((lang, colIdx) => {
                       const text = safeSlide.content![lang]?.[pIdx];
-                      const isAr = lang === Language.ARABIC;
-                      const isEn = lang === Language.ENGLISH;
-                      const isCop = lang === Language.COPTIC;
+                      const isGenerated = Boolean(safeSlide.generated?.[lang]?.[pIdx]);
+                      const def = getLanguageDef(lang);
+                      const isRtl = def.direction === 'rtl';
                       const isLast = colIdx === activePrimary.length - 1;
                       return (
                         <div 
                           key={`${lang}-${pIdx}`} 
-                          className={`flex items-start min-w-0 overflow-hidden ${colIdx > 0 ? 'pl-3 md:pl-5 border-l border-gray-100/40' : ''} ${!isLast ? 'pr-3 md:pr-5' : ''}`}
+                          className={`flex items-start min-w-0 overflow-hidden ${colIdx > 0 ? 'pl-3 md:pl-5 border-l theme-divider' : ''} ${!isLast ? 'pr-3 md:pr-5' : ''}`}
                         >
                           {text ? (
-                            <div className={`w-full min-w-0 ${isAr ? 'text-right' : 'text-left'}`} dir={isAr ? 'rtl' : 'ltr'}>
-                              <div className={`leading-[1.35] text-gray-100 transition-all font-normal ${isCop ? 'font-coptic px-1' : isAr ? 'font-arabic' : isEn ? 'font-times' : 'font-inter'}`}
+                            <div
+                              className={`w-full min-w-0 ${isRtl ? 'text-right' : 'text-left'} ${isGenerated ? 'opacity-70' : ''}`}
+                              dir={def.direction}
+                              title={isGenerated ? 'Automatic transliteration' : undefined}
+                            >
+                              {rowRole && renderRoleLabel(rowRole, lang)}
+                              <div className={`leading-[1.35] transition-all font-normal ${isRubric ? 'italic theme-rubric' : 'theme-text'} ${def.fontClass} ${def.fontClass === 'font-coptic' ? 'px-1' : ''}`}
                                    style={{ 
-                                     fontSize: `${getScaledFontSize(lang, settings.fontSize)}px`,
-                                     fontFamily: isCop 
-                                       ? "'FreeSerifAvvaShenouda', 'Free Serif Avva Shenouda', 'Coptic', serif" 
-                                       : isAr 
-                                       ? "'Noto Naskh Arabic', 'Traditional Arabic', 'Times New Roman', Times, serif" 
-                                       : isEn 
-                                       ? "'Times New Roman', Times, serif" 
-                                       : undefined
+                                     fontSize: `${SlidePagination.getScaledFontSize(lang, slideFontSize)}px`,
+                                     fontFamily: def.fontFamily
                                    }}>
-                                {text}
+                                {rowLabel && renderRowLabel(rowLabel)}
+                                {renderInline(text, 'theme-rubric')}
                               </div>
                             </div>
                           ) : <div className="w-full" />}
@@ -694,27 +503,30 @@ export const Reader: React.FC<ReaderProps> = ({
                   <div className="grid w-full items-stretch" style={getGridStyle(activeSecondary)}>
                     {activeSecondary.map((lang, colIdx) => {
                       const text = safeSlide.content![lang]?.[pIdx];
-                      const isAr = lang === Language.TRANSLITERATED_ARABIC;
-                      const isEn = lang === Language.TRANSLITERATED_ENGLISH;
+                      const isGenerated = Boolean(safeSlide.generated?.[lang]?.[pIdx]);
+                      const def = getLanguageDef(lang);
+                      const isRtl = def.direction === 'rtl';
                       const isLast = colIdx === activeSecondary.length - 1;
                       return (
                         <div 
                           key={`${lang}-${pIdx}`} 
-                          className={`flex items-start min-w-0 overflow-hidden ${colIdx > 0 ? 'pl-3 md:pl-5 border-l border-[#f1dca7]/40' : ''} ${!isLast ? 'pr-3 md:pr-5' : ''}`}
+                          className={`flex items-start min-w-0 overflow-hidden ${colIdx > 0 ? 'pl-3 md:pl-5 border-l theme-divider' : ''} ${!isLast ? 'pr-3 md:pr-5' : ''}`}
                         >
                           {text ? (
-                            <div className={`w-full min-w-0 ${isAr ? 'text-right' : 'text-left'}`} dir={isAr ? 'rtl' : 'ltr'}>
-                              <div className={`leading-snug transition-all italic ${isAr ? 'font-arabic' : isEn ? 'font-times' : 'font-inter'}`}
+                            <div
+                              className={`w-full min-w-0 ${isRtl ? 'text-right' : 'text-left'} ${isGenerated ? 'opacity-70' : ''}`}
+                              dir={def.direction}
+                              title={isGenerated ? 'Automatic transliteration' : undefined}
+                            >
+                              {rowRole && renderRoleLabel(rowRole, lang)}
+                              <div className={`leading-snug transition-all italic ${def.fontClass} ${isRubric ? 'theme-rubric-secondary' : ''}`}
                                    style={{ 
-                                     fontSize: `${getScaledFontSize(lang, settings.fontSize)}px`,
-                                     fontFamily: isAr 
-                                       ? "'Noto Naskh Arabic', 'Traditional Arabic', 'Times New Roman', Times, serif" 
-                                       : isEn 
-                                       ? "'Times New Roman', Times, serif" 
-                                       : undefined,
-                                     color: '#f1dca7'
+                                     fontSize: `${SlidePagination.getScaledFontSize(lang, slideFontSize)}px`,
+                                     fontFamily: def.fontFamily,
+                                     color: isRubric ? undefined : 'var(--theme-text-secondary)'
                                     }}>
-                                {text}
+                                {rowLabel && activePrimary.length === 0 && renderRowLabel(rowLabel)}
+                                {renderInline(text, 'theme-rubric-secondary')}
                               </div>
                             </div>
                           ) : <div className="w-full" />}
@@ -724,22 +536,25 @@ export const Reader: React.FC<ReaderProps> = ({
                   </div>
                 )}
               </div>
-            ))}
+              );
+            })}
           </div>
         </div>
       </div>
 
       {/* MATCHING SLIDE INDICATOR (BOTTOM RIGHT) - HARMONIZED WITH SIZE CARD */}
-      <div className="fixed bottom-4 right-4 z-[80] pointer-events-none">
-        <div className="bg-black/80 backdrop-blur-xl border border-white/10 rounded-2xl p-2 shadow-2xl pointer-events-auto flex items-center justify-center min-w-[6rem] h-[72px]">
-          <div className="flex flex-col items-center">
-            <span className="text-[10px] font-cinzel text-gray-600 uppercase tracking-tighter">Slide</span>
-            <span className="text-lg font-cinzel gold-text font-bold leading-none">
-              {safeSlide.slideIndex} <span className="opacity-20 mx-1 text-sm">/</span> {safeSlide.totalSlidesInSection}
-            </span>
+      {!audience && (
+        <div className="fixed bottom-4 right-4 z-[80] pointer-events-none">
+          <div className="theme-panel backdrop-blur-xl border theme-divider rounded-2xl p-2 shadow-2xl pointer-events-auto flex items-center justify-center min-w-[6rem] h-[72px]">
+            <div className="flex flex-col items-center">
+              <span className="text-[10px] font-cinzel theme-faint uppercase tracking-tighter">Slide</span>
+              <span className="text-lg font-cinzel gold-text font-bold leading-none">
+                {safeSlide.slideIndex} <span className="opacity-20 mx-1 text-sm">/</span> {safeSlide.totalSlidesInSection}
+              </span>
+            </div>
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,166 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { RemoteControl, RemoteConnection, RemoteCommand, RemoteMessage, RemoteSlide, RemoteStatus } from '../services/remoteControl';
+import { getLanguageDef } from '../constants';
+import { ChevronLeft, ChevronRight, Eye, EyeOff, Smartphone } from 'lucide-react';
+
+type RemoteState = Extract<RemoteMessage, { type: 'state' }>;
+
+/**
+ * The phone remote at /remote. The relay address and pairing code may come in the
+ * query string (?relay=host:port&code=123456), otherwise they are typed in.
+ */
+export const Remote: React.FC = () => {
+  const params = new URLSearchParams(window.location.search);
+  const [relayAddress, setRelayAddress] = useState(() => params.get('relay') || RemoteControl.getRelayAddress());
+  const [code, setCode] = useState(() => params.get('code') || '');
+  const [status, setStatus] = useState<RemoteStatus>('closed');
+  const [reason, setReason] = useState('');
+  const [state, setState] = useState<RemoteState | null>(null);
+  const connectionRef = useRef<RemoteConnection | null>(null);
+
+  useEffect(() => {
+    document.title = 'Additional Coptic Parts — Remote';
+    return () => connectionRef.current?.close();
+  }, []);
+
+  const connect = () => {
+    connectionRef.current?.close();
+    RemoteControl.setRelayAddress(relayAddress);
+    setReason('');
+    connectionRef.current = RemoteControl.connect(relayAddress, code, 'remote', {
+      onMessage: message => {
+        if (message.type === 'state') setState(message);
+      },
+      onStatus: (next, why) => {
+        setStatus(next);
+        if (why) setReason(why);
+      }
+    });
+  };
+
+  const disconnect = () => {
+    connectionRef.current?.close();
+    connectionRef.current = null;
+    setState(null);
+  };
+
+  const send = (command: RemoteCommand) => connectionRef.current?.send({ type: 'command', command });
+
+  const renderSlide = (slide: RemoteSlide | null, muted: boolean) => {
+    if (!slide) return <div className="text-sm text-gray-600 italic">End of book</div>;
+    if (slide.type === 'title') {
+      return <div className="font-cinzel gold-text font-bold tracking-wider uppercase">{slide.sectionTitle}</div>;
+    }
+    return (
+      <div className="space-y-2">
+        {slide.title && <div className="text-[10px] font-cinzel text-gray-500 uppercase tracking-wider">{slide.title}</div>}
+        {slide.lines.map(line => (
+          <div
+            key={line.language}
+            dir={line.direction}
+            className={`leading-relaxed ${getLanguageDef(line.language).fontClass} ${muted ? 'text-xs text-gray-500 line-clamp-2' : 'text-sm text-gray-200'} ${line.direction === 'rtl' ? 'text-right' : ''}`}
+          >
+            {line.text}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  if (status === 'closed' || !state) {
+    return (
+      <div className="min-h-screen bg-black text-white flex flex-col items-center justify-center p-6">
+        <div className="w-full max-w-sm space-y-4">
+          <div className="flex items-center justify-center space-x-2 mb-6">
+            <Smartphone size={20} className="gold-text" />
+            <h1 className="font-cinzel gold-text tracking-widest font-bold text-sm uppercase">Remote</h1>
+          </div>
+          <div>
+            <label className="text-[10px] text-gray-500 uppercase tracking-wider mb-1 block">Relay address</label>
+            <input
+              type="text"
+              value={relayAddress}
+              onChange={(e) => setRelayAddress(e.target.value)}
+              className="w-full bg-white/5 border border-white/10 rounded-xl py-3 px-4 text-sm font-mono text-gray-300 focus:border-[#c5a059] outline-none"
+            />
+          </div>
+          <div>
+            <label className="text-[10px] text-gray-500 uppercase tracking-wider mb-1 block">Pairing code</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              className="w-full bg-white/5 border border-white/10 rounded-xl py-3 px-4 text-2xl text-center font-mono tracking-[0.3em] gold-text focus:border-[#c5a059] outline-none"
+            />
+          </div>
+          {reason && <div className="text-xs text-red-500 text-center">{reason}</div>}
+          <button
+            onClick={connect}
+            disabled={code.length !== 6 || !relayAddress.trim() || status === 'connecting'}
+            className="w-full py-4 gold-bg text-black font-bold rounded-xl uppercase text-xs tracking-[0.2em] disabled:opacity-30"
+          >
+            {status === 'connecting' ? 'Connecting…' : 'Connect'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-[100dvh] bg-black text-white flex flex-col p-4 space-y-3 select-none">
+      <div className="flex items-center justify-between">
+        <div className="min-w-0">
+          <div className="font-cinzel gold-text font-bold text-xs tracking-widest uppercase truncate">{state.bookTitle}</div>
+          <div className={`text-[10px] uppercase tracking-wider ${status === 'connected' ? 'text-gray-500' : 'text-yellow-500'}`}>
+            {status === 'connected' ? 'Connected' : 'Reconnecting…'}
+          </div>
+        </div>
+        <button onClick={disconnect} className="text-[10px] text-gray-500 uppercase tracking-wider px-2 py-1">Disconnect</button>
+      </div>
+
+      <select
+        value={state.current?.sectionId || ''}
+        onChange={(e) => e.target.value && send({ action: 'section', sectionId: e.target.value })}
+        className="w-full bg-white/5 border border-white/10 rounded-xl py-3 px-3 text-sm text-gray-300 outline-none [color-scheme:dark]"
+      >
+        <option value="" disabled>Jump to section…</option>
+        {state.sections.map(section => (
+          <option key={section.id} value={section.id}>{section.title}</option>
+        ))}
+      </select>
+
+      <div className={`flex-1 min-h-0 overflow-y-auto bg-white/5 border rounded-2xl p-4 ${state.blackout ? 'border-red-500/50 opacity-50' : 'border-white/10'}`}>
+        <div className="flex items-baseline justify-between mb-2">
+          <span className="text-[10px] font-cinzel gold-text font-bold tracking-widest uppercase">Now</span>
+          {state.current?.type === 'content' && (
+            <span className="text-[10px] font-cinzel text-gray-600">{state.current.slideIndex} / {state.current.totalSlidesInSection}</span>
+          )}
+        </div>
+        {renderSlide(state.current, false)}
+      </div>
+
+      <div className="bg-white/5 border border-white/10 rounded-2xl p-3 max-h-[20vh] overflow-hidden">
+        <span className="text-[10px] font-cinzel text-gray-500 font-bold tracking-widest uppercase">Next</span>
+        <div className="mt-1">{renderSlide(state.next, true)}</div>
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto_2fr] gap-3 h-28 shrink-0">
+        <button onClick={() => send({ action: 'previous' })} className="bg-white/5 border border-white/10 rounded-2xl flex items-center justify-center active:bg-white/10">
+          <ChevronLeft size={36} className="text-gray-400" />
+        </button>
+        <button
+          onClick={() => send({ action: 'blackout', on: !state.blackout })}
+          className={`px-4 border rounded-2xl flex flex-col items-center justify-center text-[10px] uppercase tracking-wider font-bold ${state.blackout ? 'border-red-500/50 text-red-500' : 'border-white/10 text-gray-400'}`}
+        >
+          {state.blackout ? <Eye size={22} /> : <EyeOff size={22} />}
+          <span className="mt-1">{state.blackout ? 'Show' : 'Blank'}</span>
+        </button>
+        <button onClick={() => send({ action: 'next' })} className="gold-bg rounded-2xl flex items-center justify-center active:opacity-80">
+          <ChevronRight size={44} className="text-black" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { RemoteControl, RemoteStatus } from '../services/remoteControl';
+import { Smartphone, EyeOff, Eye } from 'lucide-react';
+
+export interface RemotePairing {
+  code: string | null; // Issued by the relay once connected
+  status: RemoteStatus;
+  reason?: string; // Why the relay refused or dropped us
+  remotes: number;
+}
+
+interface RemotePanelProps {
+  pairing: RemotePairing | null;
+  blackout: boolean;
+  onStart: (relayAddress: string) => void;
+  onStop: () => void;
+  onToggleBlackout: () => void;
+}
+
+/**
+ * Header dropdown for pairing phone remotes through the relay (npm run remote)
+ */
+export const RemotePanel: React.FC<RemotePanelProps> = ({ pairing, blackout, onStart, onStop, onToggleBlackout }) => {
+  const [relayAddress, setRelayAddress] = useState(() => RemoteControl.getRelayAddress());
+  const isActive = pairing && pairing.status !== 'closed';
+
+  return (
+    <div className="absolute top-full right-0 mt-3 w-80 theme-panel border theme-divider rounded-2xl shadow-2xl z-[80] p-4 space-y-4">
+      <div className="flex items-center space-x-2">
+        <Smartphone size={14} className="gold-text" />
+        <span className="text-[10px] font-cinzel gold-text font-bold tracking-widest uppercase">Phone Remote</span>
+      </div>
+
+      <div>
+        <label className="text-[10px] theme-muted uppercase tracking-wider mb-1 block">Relay address</label>
+        <input
+          type="text"
+          value={relayAddress}
+          onChange={(e) => setRelayAddress(e.target.value)}
+          disabled={Boolean(isActive)}
+          className="w-full theme-field border theme-border rounded-lg py-2 px-3 text-xs font-mono theme-text focus:border-[color:var(--theme-accent)] outline-none disabled:opacity-50"
+        />
+      </div>
+
+      {isActive ? (
+        <div className="space-y-3">
+          <div className="text-center">
+            <div className="text-[10px] theme-muted uppercase tracking-wider">Pairing code</div>
+            <div className="text-3xl font-mono gold-text font-bold tracking-[0.3em]">{pairing.code || '······'}</div>
+            <div className="text-[10px] theme-muted mt-1">
+              {pairing.status === 'connecting'
+                ? 'Connecting to the relay…'
+                : pairing.remotes === 0
+                  ? `Open ${RemoteControl.route} on the phone and enter this code`
+                  : `${pairing.remotes} remote${pairing.remotes === 1 ? '' : 's'} connected`}
+            </div>
+          </div>
+          <button onClick={onStop} className="w-full py-2 border theme-border rounded-xl hover:bg-[color:var(--theme-tint)] uppercase text-[10px] tracking-[0.2em] font-bold">
+            Stop
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {pairing?.reason && <div className="text-[10px] text-red-500">{pairing.reason}</div>}
+          <button
+            onClick={() => onStart(relayAddress.trim())}
+            disabled={!relayAddress.trim()}
+            className="w-full py-2 gold-bg theme-on-accent font-bold rounded-xl hover:opacity-90 uppercase text-[10px] tracking-[0.2em] disabled:opacity-30"
+          >
+            Allow a Phone
+          </button>
+        </div>
+      )}
+
+      <button
+        onClick={onToggleBlackout}
+        className={`w-full py-2 rounded-xl border uppercase text-[10px] tracking-[0.2em] font-bold flex items-center justify-center ${blackout ? 'border-red-500/50 text-red-500' : 'theme-border theme-muted hover:bg-[color:var(--theme-tint)]'}`}
+      >
+        {blackout ? <><Eye size={14} className="mr-2" /> End Blackout</> : <><EyeOff size={14} className="mr-2" /> Blackout</>}
+      </button>
+    </div>
+  );
+};
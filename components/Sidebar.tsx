@@ -11,6 +11,16 @@ interface SidebarProps {
   onToggle: () => void;
 }
 
+// A section matches the filter by its own title or by the titles of its parts,
+// including parts it embeds from elsewhere via @include
+const sectionMatchesQuery = (section: LiturgySection, query: string) => {
+  const q = query.toLowerCase();
+  if (section.title.toLowerCase().includes(q)) return true;
+  return section.parts.some(part => 
+    Object.values(part.title || {}).some(t => t && t.toLowerCase().includes(q))
+  );
+};
+
 // Reusable script splitting logic for menu titles
 const splitTitleByScript = (title: string) => {
   const LATIN = "[a-zA-Z0-9.,!?;:]";
@@ -83,7 +93,7 @@ const MenuItem: React.FC<{
         }}
         className={`
           w-full flex items-start py-4 px-4 transition-all rounded-lg mb-2
-          ${isSelected ? 'gold-text bg-white/5 border-l-4 border-[#c5a059]' : 'text-gray-400 hover:bg-white/5'}
+          ${isSelected ? 'gold-text theme-tint border-l-4 gold-border' : 'theme-muted hover:bg-[color:var(--theme-tint)]'}
         `}
         style={{ paddingLeft: `${(level + 1) * 1}rem` }}
       >
@@ -121,7 +131,7 @@ const MenuItem: React.FC<{
       {hasSections && isExpanded && (
         <div className="mt-1">
           {item.sections!.map((section: LiturgySection) => {
-            const matchesSearch = searchQuery === '' || section.title.toLowerCase().includes(searchQuery.toLowerCase());
+            const matchesSearch = searchQuery === '' || sectionMatchesQuery(section, searchQuery);
             if (!matchesSearch) return null;
             
             return (
@@ -131,7 +141,7 @@ const MenuItem: React.FC<{
                   e.stopPropagation();
                   onSelectSection(item.id, section.id);
                 }}
-                className="w-full flex items-start py-3 px-4 text-gray-500 hover:text-white transition-colors group"
+                className="w-full flex items-start py-3 px-4 theme-muted hover:text-[color:var(--theme-text)] transition-colors group"
                 style={{ paddingLeft: `${(level + 2) * 1}rem` }}
               >
                 <List size={14} className="mr-3 mt-1 opacity-30 shrink-0 group-hover:opacity-100" />
@@ -166,7 +176,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ library, selectedBookId, onSel
 
         let filteredSections: LiturgySection[] | undefined;
         if (item.sections) {
-          filteredSections = item.sections.filter(sec => sec.title.toLowerCase().includes(query));
+          filteredSections = item.sections.filter(sec => sectionMatchesQuery(sec, query));
         }
 
         const hasMatch = matchesTitle || 
@@ -190,14 +200,14 @@ export const Sidebar: React.FC<SidebarProps> = ({ library, selectedBookId, onSel
 
   return (
     <div className="flex flex-col h-full select-none">
-      <div className="p-6 border-b border-white/5 flex justify-between items-center bg-black/40 backdrop-blur-sm sticky top-0 z-10">
+      <div className="p-6 border-b theme-divider flex justify-between items-center theme-panel backdrop-blur-sm sticky top-0 z-10">
         <h2 className="text-base font-cinzel gold-text font-bold tracking-[0.3em] uppercase">Library</h2>
-        <button onClick={onToggle} className="text-gray-600 hover:text-white transition-colors p-2 -mr-2"><X size={20} /></button>
+        <button onClick={onToggle} className="theme-faint hover:text-[color:var(--theme-text)] transition-colors p-2 -mr-2"><X size={20} /></button>
       </div>
 
-      <div className="px-4 py-3 bg-black/20">
+      <div className="px-4 py-3">
         <div className="relative">
-          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none text-gray-600">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none theme-faint">
             <Search size={14} />
           </div>
           <input 
@@ -205,7 +215,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ library, selectedBookId, onSel
             placeholder="Filter library..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            className="w-full bg-white/5 border border-white/10 rounded-lg py-2 pl-9 pr-4 text-xs font-cinzel tracking-widest text-gray-300 focus:border-[#c5a059] outline-none transition-all placeholder:opacity-30"
+            className="w-full theme-tint border theme-border rounded-lg py-2 pl-9 pr-4 text-xs font-cinzel tracking-widest theme-text focus:border-[color:var(--theme-accent)] outline-none transition-all placeholder:opacity-30"
           />
         </div>
       </div>
@@ -231,7 +241,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ library, selectedBookId, onSel
         )}
       </div>
 
-      <div className="p-4 border-t border-white/5 text-[9px] text-gray-700 font-cinzel tracking-[0.2em] text-center uppercase bg-black/40">
+      <div className="p-4 border-t theme-divider text-[9px] theme-muted font-cinzel tracking-[0.2em] text-center uppercase theme-panel">
         Pull left to hide
       </div>
     </div>
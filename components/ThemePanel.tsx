@@ -0,0 +1,122 @@
+import React from 'react';
+import { Theme } from '../types';
+import { ThemeService } from '../services/themeService';
+import { Palette, Copy, Trash2, Check } from 'lucide-react';
+
+interface ThemePanelProps {
+  themes: Theme[];
+  activeThemeId: string;
+  onSelect: (id: string) => void;
+  onChange: (theme: Theme) => void; // Edits to a user theme
+  onDuplicate: (base: Theme) => void;
+  onDelete: (id: string) => void;
+}
+
+const COLOR_FIELDS: { field: 'background' | 'panel' | 'text' | 'secondaryText' | 'accent' | 'divider' | 'rubric' | 'priest' | 'deacon' | 'people'; label: string }[] = [
+  { field: 'background', label: 'Background' },
+  { field: 'panel', label: 'Panels' },
+  { field: 'text', label: 'Text' },
+  { field: 'secondaryText', label: 'Secondary text' },
+  { field: 'accent', label: 'Accent' },
+  { field: 'divider', label: 'Dividers' },
+  { field: 'rubric', label: 'Rubrics' },
+  { field: 'priest', label: 'Priest' },
+  { field: 'deacon', label: 'Deacon' },
+  { field: 'people', label: 'People' }
+];
+
+// <input type="color"> only takes #rrggbb, while themes may use rgba() for panels and dividers
+const toHexColor = (value: string): string => {
+  if (/^#[0-9a-f]{6}$/i.test(value)) return value;
+  if (/^#[0-9a-f]{3}$/i.test(value)) return '#' + value.slice(1).split('').map(c => c + c).join('');
+  const rgb = value.match(/rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/);
+  if (!rgb) return '#000000';
+  return '#' + rgb.slice(1, 4).map(n => Number(n).toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Header dropdown for choosing a theme; presets are fixed, so customizing one makes a copy
+ */
+export const ThemePanel: React.FC<ThemePanelProps> = ({ themes, activeThemeId, onSelect, onChange, onDuplicate, onDelete }) => {
+  const active = themes.find(t => t.id === activeThemeId) || themes[0];
+  const isEditable = !ThemeService.isPreset(active.id);
+
+  return (
+    <div className="absolute top-full right-0 mt-3 w-80 theme-panel border theme-divider rounded-2xl shadow-2xl max-h-[70vh] overflow-y-auto z-[80] p-4 space-y-4">
+      <div className="flex items-center space-x-2">
+        <Palette size={14} className="gold-text" />
+        <span className="text-[10px] font-cinzel gold-text font-bold tracking-widest uppercase">Theme</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {themes.map(theme => (
+          <button
+            key={theme.id}
+            onClick={() => onSelect(theme.id)}
+            className={`flex items-center p-2 rounded-xl border text-left ${theme.id === active.id ? 'gold-border' : 'theme-divider hover:bg-[color:var(--theme-tint)]'}`}
+          >
+            <span
+              className="w-6 h-6 rounded-full border shrink-0 flex items-center justify-center"
+              style={{ backgroundColor: theme.background, borderColor: theme.accent }}
+            >
+              {theme.id === active.id && <Check size={12} style={{ color: theme.accent }} />}
+            </span>
+            <span className="ml-2 text-[11px] truncate">{theme.name}</span>
+          </button>
+        ))}
+      </div>
+
+      {isEditable ? (
+        <div className="space-y-3 pt-3 border-t theme-divider">
+          <div>
+            <label className="text-[10px] theme-muted uppercase tracking-wider mb-1 block">Name</label>
+            <input
+              type="text"
+              value={active.name}
+              onChange={(e) => onChange({ ...active, name: e.target.value })}
+              className="w-full bg-transparent border theme-divider rounded-lg py-2 px-3 text-xs theme-text focus:border-[color:var(--theme-accent)] outline-none"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {COLOR_FIELDS.map(({ field, label }) => (
+              <label key={field} className="flex items-center space-x-2 text-[11px] theme-muted">
+                <input
+                  type="color"
+                  value={toHexColor(active[field])}
+                  onChange={(e) => onChange({ ...active, [field]: e.target.value })}
+                  className="w-6 h-6 rounded bg-transparent border-0 p-0 cursor-pointer"
+                />
+                <span>{label}</span>
+              </label>
+            ))}
+          </div>
+          <div>
+            <label className="text-[10px] theme-muted uppercase tracking-wider mb-1 block">Background image URL</label>
+            <input
+              type="text"
+              value={active.backgroundImage || ''}
+              placeholder="None"
+              onChange={(e) => onChange({ ...active, backgroundImage: e.target.value.trim() || undefined })}
+              className="w-full bg-transparent border theme-divider rounded-lg py-2 px-3 text-xs font-mono theme-text focus:border-[color:var(--theme-accent)] outline-none"
+            />
+          </div>
+          <div className="flex space-x-2">
+            <button onClick={() => onDuplicate(active)} className="flex-1 py-2 border theme-divider rounded-xl hover:bg-[color:var(--theme-tint)] uppercase text-[10px] tracking-[0.2em] font-bold flex items-center justify-center">
+              <Copy size={12} className="mr-2" /> Copy
+            </button>
+            <button onClick={() => onDelete(active.id)} className="flex-1 py-2 border border-red-500/50 text-red-500 rounded-xl hover:bg-red-500/10 uppercase text-[10px] tracking-[0.2em] font-bold flex items-center justify-center">
+              <Trash2 size={12} className="mr-2" /> Delete
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => onDuplicate(active)}
+          className="w-full py-2 gold-bg theme-on-accent font-bold rounded-xl hover:opacity-90 uppercase text-[10px] tracking-[0.2em] flex items-center justify-center"
+        >
+          <Copy size={12} className="mr-2" /> Customize a Copy
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,227 @@
 
-import { Language, LibraryItem } from './types';
+import { Language, LanguageDefinition, LibraryItem, Pagination, Theme } from './types';
+
+// The Coptic and Arabic stacks are also --theme-font-* in index.html; text is measured on a canvas, which cannot read CSS variables
+const SERIF_STACK = "'Times New Roman', Times, serif";
+const COPTIC_STACK = "'FreeSerifAvvaShenouda', 'Free Serif Avva Shenouda', 'Coptic', serif";
+const ARABIC_STACK = "'Noto Naskh Arabic', 'Traditional Arabic', 'Times New Roman', Times, serif";
+
+const ENGLISH_ROLES = { priest: 'Priest', deacon: 'Deacon', people: 'People' };
+const ARABIC_ROLES = { priest: 'الكاهن', deacon: 'الشماس', people: 'الشعب' };
+const FRENCH_ROLES = { priest: 'Prêtre', deacon: 'Diacre', people: 'Peuple' };
+const SPANISH_ROLES = { priest: 'Sacerdote', deacon: 'Diácono', people: 'Pueblo' };
+const GERMAN_ROLES = { priest: 'Priester', deacon: 'Diakon', people: 'Volk' };
+const GREEK_ROLES = { priest: 'Ἱερεύς', deacon: 'Διάκονος', people: 'Λαός' };
+
+// Shared shape of the Latin-script transliterations of Coptic shown beneath the main texts
+const latinTransliteration = (code: string, name: string, roleLabels: LanguageDefinition['roleLabels']): LanguageDefinition => ({
+  code,
+  name,
+  direction: 'ltr',
+  fontFamily: SERIF_STACK,
+  fontClass: 'font-times',
+  fontScale: 1,
+  widthFootprint: 1.1,
+  role: 'secondary',
+  defaultVisible: false,
+  roleLabels
+});
+
+/**
+ * Every language the reader knows about, in display order. Adding a language to the
+ * text format, the header toggles and the slide layout only takes a new entry here.
+ */
+export const LANGUAGE_REGISTRY: LanguageDefinition[] = [
+  {
+    code: Language.ENGLISH,
+    name: 'English',
+    direction: 'ltr',
+    fontFamily: SERIF_STACK,
+    fontClass: 'font-times',
+    fontScale: 1,
+    widthFootprint: 1.1,
+    role: 'primary',
+    defaultVisible: true,
+    roleLabels: ENGLISH_ROLES
+  },
+  {
+    code: Language.COPTIC,
+    name: 'Coptic',
+    direction: 'ltr',
+    fontFamily: COPTIC_STACK,
+    fontClass: 'font-coptic',
+    fontScale: 1.25,
+    widthFootprint: 2.0,
+    role: 'primary',
+    defaultVisible: true,
+    roleLabels: { priest: 'Ⲡⲓⲟⲩⲏⲃ', deacon: 'Ⲡⲓⲇⲓⲁⲕⲱⲛ', people: 'Ⲡⲓⲗⲁⲟⲥ' }
+  },
+  {
+    code: Language.ARABIC,
+    name: 'Arabic',
+    direction: 'rtl',
+    fontFamily: ARABIC_STACK,
+    fontClass: 'font-arabic',
+    fontScale: 1.15,
+    widthFootprint: 1.5,
+    role: 'primary',
+    defaultVisible: true,
+    roleLabels: ARABIC_ROLES
+  },
+  {
+    code: 'FR',
+    name: 'French',
+    direction: 'ltr',
+    fontFamily: SERIF_STACK,
+    fontClass: 'font-times',
+    fontScale: 1,
+    widthFootprint: 1.2,
+    role: 'primary',
+    defaultVisible: false,
+    roleLabels: FRENCH_ROLES
+  },
+  {
+    code: 'ES',
+    name: 'Spanish',
+    direction: 'ltr',
+    fontFamily: SERIF_STACK,
+    fontClass: 'font-times',
+    fontScale: 1,
+    widthFootprint: 1.2,
+    role: 'primary',
+    defaultVisible: false,
+    roleLabels: SPANISH_ROLES
+  },
+  {
+    code: 'DE',
+    name: 'German',
+    direction: 'ltr',
+    fontFamily: SERIF_STACK,
+    fontClass: 'font-times',
+    fontScale: 1,
+    widthFootprint: 1.25,
+    role: 'primary',
+    defaultVisible: false,
+    roleLabels: GERMAN_ROLES
+  },
+  {
+    code: 'EL',
+    name: 'Greek',
+    direction: 'ltr',
+    fontFamily: SERIF_STACK,
+    fontClass: 'font-times',
+    fontScale: 1,
+    widthFootprint: 1.2,
+    role: 'primary',
+    defaultVisible: false,
+    roleLabels: GREEK_ROLES
+  },
+  { ...latinTransliteration(Language.TRANSLITERATED_ENGLISH, 'Coptic (English transliteration)', ENGLISH_ROLES), defaultVisible: true },
+  {
+    code: Language.TRANSLITERATED_ARABIC,
+    name: 'Coptic (Arabic transliteration)',
+    direction: 'rtl',
+    fontFamily: ARABIC_STACK,
+    fontClass: 'font-arabic',
+    fontScale: 1.15,
+    widthFootprint: 1.35,
+    role: 'secondary',
+    defaultVisible: true,
+    roleLabels: ARABIC_ROLES
+  },
+  latinTransliteration('TRAN-FR', 'Coptic (French transliteration)', FRENCH_ROLES),
+  latinTransliteration('TRAN-ES', 'Coptic (Spanish transliteration)', SPANISH_ROLES),
+  latinTransliteration('TRAN-DE', 'Coptic (German transliteration)', GERMAN_ROLES),
+  { ...latinTransliteration('TRAN-EL', 'Coptic (Greek transliteration)', GREEK_ROLES), widthFootprint: 1.2 }
+];
+
+const languageIndex = new Map(LANGUAGE_REGISTRY.map(def => [def.code, def]));
+
+/**
+ * Looks a language up by code. Codes missing from the registry (e.g. in an old cached library)
+ * get a plain left-to-right secondary definition so they still render.
+ */
+export const getLanguageDef = (code: Language): LanguageDefinition => 
+  languageIndex.get(code) || { ...latinTransliteration(code, code, ENGLISH_ROLES), fontClass: 'font-inter', fontFamily: "'Inter', sans-serif" };
+
+export const isKnownLanguage = (code: string): boolean => languageIndex.has(code);
+
+export const PRIMARY_LANGUAGES: Language[] = LANGUAGE_REGISTRY.filter(l => l.role === 'primary').map(l => l.code);
+export const SECONDARY_LANGUAGES: Language[] = LANGUAGE_REGISTRY.filter(l => l.role === 'secondary').map(l => l.code);
+
+// Offered next to the font size; a section can ask for any number of rows with @slides
+export const PAGINATION_OPTIONS: { label: string; pagination: Pagination }[] = [
+  { label: 'Fill', pagination: { mode: 'fill' } },
+  { label: '1 Row', pagination: { mode: 'row' } },
+  { label: '2 Rows', pagination: { mode: 'rows', rowsPerSlide: 2 } },
+  { label: '3 Rows', pagination: { mode: 'rows', rowsPerSlide: 3 } },
+  { label: '4 Rows', pagination: { mode: 'rows', rowsPerSlide: 4 } },
+  { label: 'Part', pagination: { mode: 'part' } }
+];
+
+/**
+ * Built-in themes. Dark is the original black and gold; light and sepia suit bright rooms
+ * and print, and high contrast keeps to pure colors for weak projectors and low vision.
+ */
+export const THEME_PRESETS: Theme[] = [
+  {
+    id: 'dark',
+    name: 'Dark',
+    background: '#000000',
+    panel: 'rgba(13, 13, 13, 0.95)',
+    text: '#f3f4f6',
+    secondaryText: '#f1dca7',
+    accent: '#c5a059',
+    divider: 'rgba(243, 244, 246, 0.4)',
+    rubric: '#f87171',
+    priest: '#e8b04a',
+    deacon: '#7fb3e0',
+    people: '#8fd19e'
+  },
+  {
+    id: 'light',
+    name: 'Light',
+    background: '#fdfcf8',
+    panel: 'rgba(255, 255, 255, 0.95)',
+    text: '#1f2937',
+    secondaryText: '#6b4f1d',
+    accent: '#8a6a1f',
+    divider: 'rgba(31, 41, 55, 0.25)',
+    rubric: '#b91c1c',
+    priest: '#a16207',
+    deacon: '#1d4ed8',
+    people: '#15803d'
+  },
+  {
+    id: 'high-contrast',
+    name: 'High Contrast',
+    background: '#000000',
+    panel: '#000000',
+    text: '#ffffff',
+    secondaryText: '#ffff00',
+    accent: '#ffd700',
+    divider: '#ffffff',
+    rubric: '#ff5f5f',
+    priest: '#ffb000',
+    deacon: '#66ccff',
+    people: '#66ff66'
+  },
+  {
+    id: 'sepia',
+    name: 'Sepia',
+    background: '#f4ecd8',
+    panel: 'rgba(244, 236, 216, 0.95)',
+    text: '#3b2f1e',
+    secondaryText: '#6f4e37',
+    accent: '#8b5a2b',
+    divider: 'rgba(59, 47, 30, 0.3)',
+    rubric: '#a33a22',
+    priest: '#8a5a00',
+    deacon: '#1e4f8a',
+    people: '#2f6b2f'
+  }
+];
+
 
 export const INITIAL_DATA: LibraryItem[] = [
   {
@@ -45,10 +267,12 @@ export const INITIAL_DATA: LibraryItem[] = [
                   ],
                   [Language.COPTIC]: [
                     'Ⲡⲉⲛⲓⲱⲧ ⲉⲧϦⲉⲛ ⲛⲓⲫⲏⲟⲩⲓ: ⲙⲁⲣⲉϥⲧⲟⲩⲃⲟ ⲛ̀ϫⲉ ⲡⲉⲕⲣⲁⲛ:',
-                    'ⲙⲁⲣⲉⲥⲓ ⲛ̀ϫⲉ ⲧⲉⲕⲙⲉⲧⲟⲩⲣⲟ: ⲡⲉⲧⲉϩⲛⲁⲕ ⲙⲁⲣⲉϥϣⲱⲡⲓ:'
+                    'ⲙⲁⲣⲉⲥⲓ ⲛ̀ϫⲉ ⲧⲉⲕⲙⲉⲧⲟⲩⲣⲟ: ⲡⲉⲧⲉϩⲛⲁⲕ ⲙⲁⲣⲉϥϣⲱⲡⲓ:',
+                    'ⲡⲉⲛⲱⲓⲕ ⲛ̀ⲧⲉ ⲣⲁⲥϯ ⲙⲏⲓϥ ⲛⲁⲛ ⲙ̀ⲫⲟⲟⲩ:'
                   ],
                   [Language.ARABIC]: [
-                    'أبانا الذي في السموات، ليتقدس اسمك. ليأت ملكوتك. لتكن مشيئتك كما في السماء كذلك على الأرض.',
+                    'أبانا الذي في السموات، ليتقدس اسمك.',
+                    'ليأت ملكوتك. لتكن مشيئتك كما في السماء كذلك على الأرض.',
                     'خبزنا الذي للغد أعطنا اليوم.'
                   ]
                 }
@@ -2,6 +2,11 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { Display } from './components/Display';
+import { Remote } from './components/Remote';
+import { Overlay } from './components/Overlay';
+import { DisplaySync } from './services/displaySync';
+import { RemoteControl } from './services/remoteControl';
 import './index.css';
 
 const rootElement = document.getElementById('root');
@@ -9,9 +14,15 @@ if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Every path serves index.html (see vercel.json); the path picks the window
+const path = window.location.pathname.replace(/\/+$/, '');
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {path === DisplaySync.route ? <Display />
+      : path === DisplaySync.overlayRoute ? <Overlay />
+      : path === RemoteControl.route ? <Remote />
+      : <App />}
   </React.StrictMode>
 );
@@ -0,0 +1,296 @@
+// Relay between the operator window and phone remotes on the local network.
+//
+//   npm run remote            (PORT=8787 by default)
+//
+// The operator window connects with role=operator and is given a fresh pairing code by the
+// relay; a phone connects with role=remote and must present the same code. Slide state flows from the operator to its
+// remotes and commands flow back. When dist/ has been built, the app is served here as well,
+// so phones can open http://<this machine>:8787/remote without a separate web server.
+import http from 'http';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DIST = path.join(process.cwd(), 'dist');
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+const MAX_FAILED_PAIRINGS = 5; // Per address, before it is locked out
+const LOCKOUT_MS = 60 * 1000;
+const PING_INTERVAL_MS = 30 * 1000;
+
+// Close codes, also understood by services/remoteControl.ts
+const CLOSE_UNKNOWN_CODE = 4001;
+const CLOSE_LOCKED_OUT = 4003;
+const CLOSE_OPERATOR_GONE = 4004;
+const CLOSE_TOO_BIG = 1009;
+
+const CONTENT_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ttf': 'font/ttf',
+  '.woff2': 'font/woff2',
+};
+
+// code -> { operator, remotes: Set }
+const rooms = new Map();
+// address -> { failures, lockedUntil }
+const pairingAttempts = new Map();
+
+function serveStatic(req, res) {
+  if (!fs.existsSync(DIST)) {
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('Relay running. Build the app (npm run build) to serve it from here too.\n');
+    return;
+  }
+  let urlPath;
+  try {
+    urlPath = decodeURIComponent(new URL(req.url, 'http://localhost').pathname);
+  } catch {
+    // A malformed escape must not take the relay (and every paired remote) down
+    res.writeHead(400, { 'Content-Type': 'text/plain' });
+    res.end('Bad request\n');
+    return;
+  }
+  let file = path.normalize(path.join(DIST, urlPath));
+  // Inside dist/ itself, not a sibling such as dist-old/
+  const relative = path.relative(DIST, file);
+  const inside = relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+  if (!inside || !fs.existsSync(file) || fs.statSync(file).isDirectory()) {
+    // Client-side routes (/display, /remote) all load the app
+    file = path.join(DIST, 'index.html');
+  }
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] || 'application/octet-stream' });
+  fs.createReadStream(file).pipe(res);
+}
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// A minimal RFC 6455 connection: text messages, ping/pong and close
+function createClient(socket, address) {
+  const client = {
+    socket,
+    address,
+    alive: true,
+    onMessage: () => {},
+    onClose: () => {},
+    send(message) {
+      if (!socket.destroyed) socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+    },
+    close(code, reason) {
+      if (socket.destroyed) return;
+      const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+      payload.writeUInt16BE(code, 0);
+      payload.write(reason, 2);
+      socket.end(encodeFrame(0x8, payload));
+    },
+  };
+
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+  let fragmentBytes = 0;
+
+  socket.on('data', chunk => {
+    // Once we have sent our close frame, nothing more is read
+    if (socket.writableEnded) return;
+    buffer = Buffer.concat([buffer, chunk]);
+    for (;;) {
+      if (buffer.length < 2) return;
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (!masked || length > MAX_MESSAGE_BYTES) {
+        // Browsers always mask; anything else is not a client we serve
+        socket.destroy();
+        return;
+      }
+      if (buffer.length < offset + 4 + length) return;
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      buffer = buffer.subarray(offset + 4 + length);
+
+      if (opcode === 0x8) {
+        socket.end(encodeFrame(0x8, payload.subarray(0, 2)));
+        return;
+      } else if (opcode === 0x9) {
+        socket.write(encodeFrame(0xa, payload));
+      } else if (opcode === 0xa) {
+        client.alive = true;
+      } else if (opcode === 0x1 || opcode === 0x0) {
+        // The limit holds for the whole message, not only for each of its frames
+        fragmentBytes += payload.length;
+        if (fragmentBytes > MAX_MESSAGE_BYTES) {
+          fragments = [];
+          client.close(CLOSE_TOO_BIG, 'Message too big');
+          return;
+        }
+        fragments.push(payload);
+        if (fin) {
+          const text = Buffer.concat(fragments).toString('utf8');
+          fragments = [];
+          fragmentBytes = 0;
+          try {
+            client.onMessage(JSON.parse(text));
+          } catch {
+            // Not JSON: ignore it
+          }
+        }
+      }
+    }
+  });
+  // Upgraded HTTP sockets allow half-open connections; finish ours when the client goes
+  socket.on('end', () => socket.end());
+  socket.on('close', () => client.onClose());
+  socket.on('error', () => socket.destroy());
+  return client;
+}
+
+function isLockedOut(address) {
+  const entry = pairingAttempts.get(address);
+  return Boolean(entry && entry.lockedUntil > Date.now());
+}
+
+function recordFailedPairing(address) {
+  const entry = pairingAttempts.get(address) || { failures: 0, lockedUntil: 0 };
+  entry.failures++;
+  if (entry.failures >= MAX_FAILED_PAIRINGS) {
+    entry.failures = 0;
+    entry.lockedUntil = Date.now() + LOCKOUT_MS;
+  }
+  pairingAttempts.set(address, entry);
+}
+
+function notifyPeers(room) {
+  room.operator?.send({ type: 'peers', remotes: room.remotes.size });
+}
+
+// Operators never choose a code, so the only way to find a room is to guess as a remote
+function createPairingCode() {
+  let code;
+  do {
+    code = String(crypto.randomInt(1000000)).padStart(6, '0');
+  } while (rooms.has(code));
+  return code;
+}
+
+function join(client, role, code) {
+  if (role === 'operator') {
+    code = createPairingCode();
+    const room = { operator: client, remotes: new Set() };
+    rooms.set(code, room);
+    client.onMessage = message => {
+      // Everything the operator says is slide state for its remotes
+      room.remotes.forEach(remote => remote.send(message));
+    };
+    client.onClose = () => {
+      room.operator = null;
+      room.remotes.forEach(remote => remote.close(CLOSE_OPERATOR_GONE, 'The operator window disconnected'));
+      rooms.delete(code);
+    };
+    client.send({ type: 'paired', code });
+    notifyPeers(room);
+    return;
+  }
+
+  if (isLockedOut(client.address)) {
+    client.close(CLOSE_LOCKED_OUT, 'Too many wrong pairing codes; try again in a minute');
+    return;
+  }
+  const room = /^\d{6}$/.test(code || '') ? rooms.get(code) : undefined;
+  if (!room?.operator) {
+    recordFailedPairing(client.address);
+    client.close(CLOSE_UNKNOWN_CODE, 'Unknown pairing code');
+    return;
+  }
+  pairingAttempts.delete(client.address);
+  room.remotes.add(client);
+  client.onMessage = message => {
+    // Remotes may only send commands
+    if (message && message.type === 'command') room.operator?.send(message);
+  };
+  client.onClose = () => {
+    room.remotes.delete(client);
+    notifyPeers(room);
+  };
+  notifyPeers(room);
+}
+
+const server = http.createServer(serveStatic);
+const clients = new Set();
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if ((req.headers.upgrade || '').toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+
+  const params = new URL(req.url, 'http://localhost').searchParams;
+  const client = createClient(socket, req.socket.remoteAddress || '');
+  clients.add(client);
+  socket.on('close', () => clients.delete(client));
+  join(client, params.get('role') === 'operator' ? 'operator' : 'remote', params.get('code'));
+});
+
+// Drop connections that stopped answering, such as a phone that went to sleep
+setInterval(() => {
+  clients.forEach(client => {
+    if (!client.alive) {
+      client.socket.destroy();
+      return;
+    }
+    client.alive = false;
+    if (!client.socket.destroyed) client.socket.write(encodeFrame(0x9, Buffer.alloc(0)));
+  });
+}, PING_INTERVAL_MS);
+
+server.listen(PORT, () => {
+  console.log(`[remote-relay] Listening on port ${PORT}`);
+  Object.values(os.networkInterfaces()).flat().forEach(net => {
+    if (net && net.family === 'IPv4' && !net.internal) {
+      console.log(`[remote-relay] Phones on this network can use http://${net.address}:${PORT}/remote`);
+    }
+  });
+});
@@ -0,0 +1,284 @@
+import { Language, ScriptureReference, VerseRange } from '../types.ts';
+import { InlineMarkup } from './inlineMarkup.ts';
+
+// One file per language: { "<book code>": { "<chapter>": ["verse 1", "verse 2", ...] } }
+type BibleText = { [book: string]: { [chapter: string]: string[] } };
+
+type BibleSource = 'bundled' | 'imported';
+
+// A reference without verses ("John 3") covers the whole chapter
+const WHOLE_CHAPTER = 999;
+
+/**
+ * Canonical book codes, in canon order, with the names they can be cited by.
+ * Psalms follow the Septuagint numbering used by the Coptic books.
+ */
+const BOOKS: [code: string, name: string, ...aliases: string[]][] = [
+  ['Gen', 'Genesis', 'Gn'], ['Ex', 'Exodus', 'Exod'], ['Lev', 'Leviticus'], ['Num', 'Numbers'], ['Deut', 'Deuteronomy', 'Dt'],
+  ['Josh', 'Joshua'], ['Judg', 'Judges'], ['Ruth', 'Ruth'], ['1 Sam', '1 Samuel', '1 Kingdoms'], ['2 Sam', '2 Samuel', '2 Kingdoms'],
+  ['1 Kgs', '1 Kings'], ['2 Kgs', '2 Kings'], ['1 Chr', '1 Chronicles'], ['2 Chr', '2 Chronicles'], ['Ezra', 'Ezra'],
+  ['Neh', 'Nehemiah'], ['Tob', 'Tobit'], ['Jdt', 'Judith'], ['Esth', 'Esther'], ['1 Macc', '1 Maccabees'], ['2 Macc', '2 Maccabees'],
+  ['Job', 'Job'], ['Ps', 'Psalms', 'Psalm', 'Pss'], ['Prov', 'Proverbs'], ['Eccl', 'Ecclesiastes'], ['Song', 'Song of Songs', 'Song of Solomon'],
+  ['Wis', 'Wisdom', 'Wisdom of Solomon'], ['Sir', 'Sirach', 'Ecclesiasticus'], ['Isa', 'Isaiah', 'Is'], ['Jer', 'Jeremiah'],
+  ['Lam', 'Lamentations'], ['Bar', 'Baruch'], ['Ezek', 'Ezekiel'], ['Dan', 'Daniel'], ['Hos', 'Hosea'], ['Joel', 'Joel'],
+  ['Amos', 'Amos'], ['Obad', 'Obadiah'], ['Jonah', 'Jonah', 'Jon'], ['Mic', 'Micah'], ['Nah', 'Nahum'], ['Hab', 'Habakkuk'],
+  ['Zeph', 'Zephaniah'], ['Hag', 'Haggai'], ['Zech', 'Zechariah'], ['Mal', 'Malachi'],
+  ['Mt', 'Matthew', 'Matt'], ['Mk', 'Mark', 'Mar'], ['Lk', 'Luke'], ['Jn', 'John', 'Joh'], ['Acts', 'Acts'], ['Rom', 'Romans'],
+  ['1 Cor', '1 Corinthians'], ['2 Cor', '2 Corinthians'], ['Gal', 'Galatians'], ['Eph', 'Ephesians'], ['Phil', 'Philippians'],
+  ['Col', 'Colossians'], ['1 Thess', '1 Thessalonians'], ['2 Thess', '2 Thessalonians'], ['1 Tim', '1 Timothy'], ['2 Tim', '2 Timothy'],
+  ['Tit', 'Titus'], ['Phlm', 'Philemon'], ['Heb', 'Hebrews'], ['Jas', 'James'], ['1 Pet', '1 Peter'], ['2 Pet', '2 Peter'],
+  ['1 Jn', '1 John'], ['2 Jn', '2 John'], ['3 Jn', '3 John'], ['Jude', 'Jude'], ['Rev', 'Revelation', 'Apocalypse']
+];
+
+export class BibleService {
+  // Bundled Bible files, served from public/bible when the deployment ships them
+  private static files: { [lang: Language]: string } = {
+    [Language.ENGLISH]: '/bible/en.json',
+    [Language.ARABIC]: '/bible/ar-van-dyck.json',
+    [Language.COPTIC]: '/bible/cop-bohairic.json'
+  };
+  // Files imported in the editor, kept in IndexedDB: a whole Bible outgrows localStorage
+  private static dbName = 'coptic_reader_bible';
+  private static storeName = 'texts';
+
+  private static texts: { [lang: Language]: BibleText } = {};
+  private static sources: { [lang: Language]: BibleSource } = {};
+  private static loading: Promise<void> | null = null;
+
+  private static normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[\s.]+/g, '');
+  }
+
+  private static bookIndex = new Map<string, string>(
+    BOOKS.flatMap(([code, ...names]) => [code, ...names].map(name => [BibleService.normalizeName(name), code] as [string, string]))
+  );
+
+  static get languages(): Language[] {
+    return Object.keys(this.files);
+  }
+
+  /**
+   * Loads the imported Bible files, then the bundled ones of the other languages.
+   * A language with neither is simply not offered. Parsing fills @scripture verses from
+   * what has loaded, so the library is parsed again once this settles.
+   */
+  static load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readImported().then(imported => Promise.all(this.languages.map(async lang => {
+        if (imported[lang]) {
+          this.setText(lang, imported[lang], 'imported');
+          return;
+        }
+        const bundled = await this.fetchBundled(lang);
+        if (bundled) this.setText(lang, bundled, 'bundled');
+      }))).then(() => undefined);
+    }
+    return this.loading;
+  }
+
+  /**
+   * Where each language's verses come from, and how many books they cover
+   */
+  static getStatus(): { lang: Language; source: BibleSource | null; books: number }[] {
+    return this.languages.map(lang => ({
+      lang,
+      source: this.sources[lang] || null,
+      books: Object.keys(this.texts[lang] || {}).length
+    }));
+  }
+
+  /**
+   * Reads a Bible file chosen by the user, in place of the bundled one, and keeps it for
+   * later sessions where the browser allows. Throws when the file is not a Bible in the expected shape.
+   */
+  static async importFile(lang: Language, json: string): Promise<void> {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+    if (!this.isBibleText(data)) {
+      throw new Error('Expected { "<book code>": { "<chapter>": ["verse 1", ...] } } with books such as "Gen" or "Mt"');
+    }
+    this.setText(lang, data, 'imported');
+    try {
+      await this.withStore('readwrite', store => store.put(data, lang));
+    } catch (err) {
+      console.warn(`Bible text for ${lang} is used for this session only`, err);
+    }
+  }
+
+  /**
+   * Forgets an imported file; the bundled one takes its place if the deployment has it
+   */
+  static async removeImported(lang: Language): Promise<void> {
+    delete this.texts[lang];
+    delete this.sources[lang];
+    const bundled = await this.fetchBundled(lang);
+    if (bundled) this.setText(lang, bundled, 'bundled');
+    if (typeof indexedDB !== 'undefined') await this.withStore('readwrite', store => store.delete(lang));
+  }
+
+  private static setText(lang: Language, text: BibleText, source: BibleSource) {
+    this.texts[lang] = text;
+    this.sources[lang] = source;
+  }
+
+  private static async fetchBundled(lang: Language): Promise<BibleText | null> {
+    try {
+      const response = await fetch(this.files[lang]);
+      // A missing file is expected: the dev server and most hosts answer it with the app's HTML
+      if (!response.ok || !(response.headers.get('content-type') || '').includes('json')) return null;
+      const data: unknown = await response.json();
+      if (this.isBibleText(data)) return data;
+      console.warn(`Bible text for ${lang} at ${this.files[lang]} is not in the expected shape`);
+    } catch (err) {
+      console.warn(`Bible text for ${lang} could not be loaded`, err);
+    }
+    return null;
+  }
+
+  private static async readImported(): Promise<{ [lang: Language]: BibleText }> {
+    const imported: { [lang: Language]: BibleText } = {};
+    if (typeof indexedDB === 'undefined') return imported;
+    try {
+      await Promise.all(this.languages.map(async lang => {
+        const data = await this.withStore('readonly', store => store.get(lang));
+        if (this.isBibleText(data)) imported[lang] = data;
+      }));
+    } catch (err) {
+      console.warn('Imported Bible texts could not be read', err);
+    }
+    return imported;
+  }
+
+  /**
+   * Books keyed by code, chapters by number, verses as strings. Only the first chapter of
+   * each book is checked, so a whole Bible is not walked on every load.
+   */
+  private static isBibleText(data: unknown): data is BibleText {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) return false;
+    const books = Object.entries(data as { [book: string]: unknown });
+    if (!books.some(([code]) => this.bookIndex.get(this.normalizeName(code)) === code)) return false;
+    return books.every(([, chapters]) => {
+      if (!chapters || typeof chapters !== 'object' || Array.isArray(chapters)) return false;
+      const first = Object.values(chapters as { [chapter: string]: unknown })[0];
+      return first === undefined || (Array.isArray(first) && first.every(verse => typeof verse === 'string'));
+    });
+  }
+
+  private static withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const open = indexedDB.open(this.dbName, 1);
+      open.onupgradeneeded = () => open.result.createObjectStore(this.storeName);
+      open.onerror = () => reject(open.error);
+      open.onsuccess = () => {
+        const db = open.result;
+        const request = run(db.transaction(this.storeName, mode).objectStore(this.storeName));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.transaction!.oncomplete = () => db.close();
+      };
+    });
+  }
+
+  static resolveBook(name: string): string | null {
+    const key = this.normalizeName(name);
+    const exact = this.bookIndex.get(key);
+    if (exact) return exact;
+    // Otherwise any unambiguous prefix of a full name: "Matt", "Philip", "Rev"
+    if (key.length < 3) return null;
+    const matches = BOOKS.filter(([, name]) => this.normalizeName(name).startsWith(key));
+    return matches.length === 1 ? matches[0][0] : null;
+  }
+
+  /**
+   * Reads citations such as "Ps 50:1-5", "John 3:16", "1 Cor 15:1-23", "Tit 2:11-3:7",
+   * "Ps 117:24,26,27" or a whole chapter ("John 3"). Returns null for anything else.
+   */
+  static parseReference(text: string): ScriptureReference | null {
+    const match = text.trim().match(/^((?:[1-3]\s*)?[A-Za-z][A-Za-z.\s]*?)\.?\s*(\d+)(?:\s*:\s*([\d\s,:-]+))?$/);
+    if (!match) return null;
+    const book = this.resolveBook(match[1]);
+    if (!book) return null;
+
+    let chapter = Number(match[2]);
+    if (!match[3]) {
+      return { book, ranges: [{ startChapter: chapter, startVerse: 1, endChapter: chapter, endVerse: WHOLE_CHAPTER }] };
+    }
+    const ranges: VerseRange[] = [];
+    for (const segment of match[3].replace(/\s+/g, '').split(',')) {
+      const seg = segment.match(/^(?:(\d+):)?(\d+)(?:-(?:(\d+):)?(\d+))?$/);
+      if (!seg) return null;
+      if (seg[1]) chapter = Number(seg[1]);
+      const range: VerseRange = {
+        startChapter: chapter,
+        startVerse: Number(seg[2]),
+        endChapter: seg[3] ? Number(seg[3]) : chapter,
+        endVerse: seg[4] ? Number(seg[4]) : Number(seg[2])
+      };
+      if (range.endChapter < range.startChapter || (range.endChapter === range.startChapter && range.endVerse < range.startVerse)) return null;
+      ranges.push(range);
+      chapter = range.endChapter;
+    }
+    return { book, ranges };
+  }
+
+  static formatReference(ref: ScriptureReference): string {
+    let chapter = -1;
+    const segments = ref.ranges.map(r => {
+      if (r.endVerse === WHOLE_CHAPTER && r.startVerse === 1 && r.startChapter === r.endChapter) return `${r.startChapter}`;
+      const start = r.startChapter === chapter ? `${r.startVerse}` : `${r.startChapter}:${r.startVerse}`;
+      chapter = r.endChapter;
+      if (r.endChapter !== r.startChapter) return `${start}-${r.endChapter}:${r.endVerse}`;
+      return r.endVerse !== r.startVerse ? `${start}-${r.endVerse}` : start;
+    });
+    return `${ref.book} ${segments.join(',')}`;
+  }
+
+  static overlaps(a: ScriptureReference, b: ScriptureReference): boolean {
+    if (a.book !== b.book) return false;
+    const pos = (chapter: number, verse: number) => chapter * 1000 + verse;
+    return a.ranges.some(x => b.ranges.some(y =>
+      pos(x.startChapter, x.startVerse) <= pos(y.endChapter, y.endVerse) &&
+      pos(y.startChapter, y.startVerse) <= pos(x.endChapter, x.endVerse)
+    ));
+  }
+
+  /**
+   * The cited verses in every loaded language, one row per verse, as stanzas (markup characters
+   * escaped). A verse a language lacks is left empty so the rows stay aligned; languages
+   * without any of the verses are left out.
+   */
+  static lookup(ref: ScriptureReference): { labels: string[]; content: { [key in Language]?: string[] }; incomplete: Language[] } {
+    const verses: { chapter: number; verse: number }[] = [];
+    ref.ranges.forEach(r => {
+      for (let c = r.startChapter; c <= r.endChapter; c++) {
+        const first = c === r.startChapter ? r.startVerse : 1;
+        const last = c === r.endChapter ? Math.min(r.endVerse, this.chapterLength(ref.book, c)) : this.chapterLength(ref.book, c);
+        for (let v = first; v <= last; v++) verses.push({ chapter: c, verse: v });
+      }
+    });
+
+    const spansChapters = new Set(verses.map(v => v.chapter)).size > 1;
+    const content: { [key in Language]?: string[] } = {};
+    const incomplete: Language[] = [];
+    Object.entries(this.texts).forEach(([lang, bible]) => {
+      const rows = verses.map(v => bible[ref.book]?.[v.chapter]?.[v.verse - 1]?.trim() || '');
+      const found = rows.filter(Boolean).length;
+      if (found === 0) return;
+      if (found < rows.length) incomplete.push(lang);
+      content[lang] = rows.map(text => InlineMarkup.serialize([{ text }]));
+    });
+    return { labels: verses.map(v => spansChapters ? `${v.chapter}:${v.verse}` : `${v.verse}`), content, incomplete };
+  }
+
+  private static chapterLength(book: string, chapter: number): number {
+    return Math.max(0, ...Object.values(this.texts).map(bible => bible[book]?.[chapter]?.length || 0));
+  }
+}
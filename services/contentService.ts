@@ -1,15 +1,134 @@
-import { LibraryItem, Language, LiturgicalPart, LiturgySection } from '../types.ts';
-import { INITIAL_DATA } from '../constants.tsx';
+import { AlignmentIssue, LibraryItem, Language, LiturgicalPart, LiturgySection, Pagination, ParseDiagnostic, ParseResult, SeasonCondition, SpeakerRole } from '../types.ts';
+import { INITIAL_DATA, LANGUAGE_REGISTRY, isKnownLanguage } from '../constants.tsx';
+import { InlineMarkup } from './inlineMarkup.ts';
+import { CopticCalendar } from './copticCalendar.ts';
+import { Lectionary } from './lectionary.ts';
+import { BibleService } from './bibleService.ts';
+import { Transliterator } from './transliteration.ts';
+import { LegacyCoptic } from './legacyCoptic.ts';
+
+type HeadingKind = 'category' | 'book' | 'section';
+
+interface OpenCondition {
+  condition: SeasonCondition;
+  line: number;
+  column: number;
+  hasElse: boolean;
+}
+
+interface PendingInclude {
+  placeholder: LiturgicalPart;
+  bookId: string;
+  sectionId: string;
+  partId: string | null;
+  line: number;
+  column: number;
+}
 
 export class ContentService {
   private static storageKey = 'coptic_reader_library_v2';
   private static rawTextKey = 'coptic_reader_raw_text';
   private static googleDocIdKey = 'coptic_reader_google_doc_id';
+  private static partTypes: LiturgicalPart['type'][] = ['prayer', 'hymn', 'reading', 'instruction'];
+  private static rolePrefixes: { [prefix: string]: SpeakerRole } = { P: 'priest', D: 'deacon', C: 'people' };
 
   private static slugify(text: string): string {
     return text.toLowerCase().trim().replace(/[^\w\s-]/g, '').replace(/[\s_-]+/g, '-').replace(/^-+|-+$/g, '');
   }
 
+  /**
+   * Decides whether each heading line opens a category, a book or a section.
+   * `@book` / `@category` on the line after a heading mark it explicitly; a heading above a marked one
+   * is a category and a heading below a book is a section. Unmarked documents keep the classic
+   * `#` category, `##` book, `###` section layout.
+   */
+  private static classifyHeadings(lines: string[]): { kinds: Map<number, HeadingKind>; markers: Map<number, HeadingKind> } {
+    const headings: { idx: number; level: number; marker: HeadingKind | null; hasMarkedDescendant: boolean }[] = [];
+    lines.forEach((line, idx) => {
+      const match = line.trim().match(/^(#+)/);
+      if (!match) return;
+      let next = idx + 1;
+      while (next < lines.length && !lines[next].trim()) next++;
+      const directive = next < lines.length ? lines[next].trim().toLowerCase() : '';
+      const marker = directive === '@book' ? 'book' : directive === '@category' ? 'category' : null;
+      headings.push({ idx, level: match[1].length, marker, hasMarkedDescendant: false });
+    });
+
+    let stack: typeof headings = [];
+    headings.forEach(h => {
+      stack = stack.filter(a => a.level < h.level);
+      if (h.marker) stack.forEach(a => { a.hasMarkedDescendant = true; });
+      stack.push(h);
+    });
+
+    const kinds = new Map<number, HeadingKind>();
+    const markers = new Map<number, HeadingKind>();
+    let open: { level: number; kind: HeadingKind }[] = [];
+    headings.forEach(h => {
+      open = open.filter(a => a.level < h.level);
+      let kind: HeadingKind;
+      if (h.marker) kind = h.marker;
+      else if (h.hasMarkedDescendant) kind = 'category';
+      else if (open.some(a => a.kind === 'book')) kind = 'section';
+      else kind = h.level === 1 ? 'category' : h.level === 2 ? 'book' : 'section';
+      kinds.set(h.idx, kind);
+      if (h.marker) markers.set(h.idx, h.marker);
+      open.push({ level: h.level, kind });
+    });
+    return { kinds, markers };
+  }
+
+  // A condition as `@if` reads it, e.g. season=kiahk,nativity
+  private static formatCondition(condition: SeasonCondition): string {
+    return `season${condition.negate ? '!=' : '='}${condition.seasons.join(',')}`;
+  }
+
+  /**
+   * Reads the argument of `@slides`: fill, row, part, or a number of rows per slide
+   */
+  static parsePagination(text: string): Pagination | null {
+    const value = text.trim().toLowerCase();
+    if (value === 'fill' || value === 'row' || value === 'part') return { mode: value };
+    if (!/^\d+$/.test(value)) return null;
+    const rows = Number(value);
+    if (rows < 1 || rows > 50) return null;
+    return rows === 1 ? { mode: 'row' } : { mode: 'rows', rowsPerSlide: rows };
+  }
+
+  static formatPagination(pagination: Pagination): string {
+    return pagination.mode === 'rows' ? String(pagination.rowsPerSlide || 1) : pagination.mode;
+  }
+
+  /**
+   * The part as shown on a day in `seasons`: null when its own conditions fail,
+   * otherwise without the stanzas whose @if blocks do not hold
+   */
+  static resolvePartForSeasons(part: LiturgicalPart, seasons: string[]): LiturgicalPart | null {
+    if (!CopticCalendar.conditionsHold(part.conditions, seasons)) return null;
+    if (!part.rowConditions) return part;
+    const content: LiturgicalPart['content'] = {};
+    const roles: NonNullable<LiturgicalPart['roles']> = {};
+    const generated: NonNullable<LiturgicalPart['generated']> = {};
+    (Object.keys(part.content) as Language[]).forEach(lang => {
+      const keep = (_: unknown, i: number) => CopticCalendar.conditionsHold(part.rowConditions?.[lang]?.[i], seasons);
+      content[lang] = part.content[lang]!.filter(keep);
+      if (part.roles?.[lang]) roles[lang] = part.roles[lang]!.filter(keep);
+      if (part.generated?.[lang]) generated[lang] = part.generated[lang]!.filter(keep);
+    });
+    const { rowConditions, ...rest } = part;
+    return { ...rest, content, ...(part.roles ? { roles } : {}), ...(part.generated ? { generated } : {}) };
+  }
+
+  /**
+   * Splits a trailing `{#anchor}` off a heading or separator line.
+   * `anchorOffset` is the 0-based index of the `{` within `text`, or -1 when absent.
+   */
+  private static splitAnchor(text: string): { title: string; anchor: string | null; anchorOffset: number } {
+    const match = text.match(/\{#([^}]*)\}\s*$/);
+    if (!match || match.index === undefined) return { title: text.trim(), anchor: null, anchorOffset: -1 };
+    return { title: text.slice(0, match.index).trim(), anchor: match[1].trim(), anchorOffset: match.index };
+  }
+
   static async getLibrary(): Promise<LibraryItem[]> {
     const cached = localStorage.getItem(this.storageKey);
     if (cached) {
@@ -41,6 +160,17 @@ export class ContentService {
     }
   }
 
+  static findBook(items: LibraryItem[], id: string): LibraryItem | null {
+    for (const item of items) {
+      if (item.id === id && item.type === 'book') return item;
+      if (item.children) {
+        const found = this.findBook(item.children, id);
+        if (found) return found;
+      }
+    }
+    return null;
+  }
+
   static async fetchGoogleDocContent(docId: string): Promise<string> {
     if (!docId) throw new Error("No Document ID provided");
     const url = `https://docs.google.com/document/d/${docId}/export?format=txt`;
@@ -58,145 +188,722 @@ export class ContentService {
   }
 
   static parseTextToLibrary(text: string): LibraryItem[] {
+    return this.parseText(text).library;
+  }
+
+  /**
+   * Parses the editable text format and reports every problem found along the way,
+   * each pinned to a 1-based line and column of the source text.
+   */
+  static parseText(text: string): ParseResult {
     const normalized = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
     const lines = normalized.split('\n');
     const library: LibraryItem[] = [];
+    const diagnostics: ParseDiagnostic[] = [];
     
     let currentCat: LibraryItem | null = null;
     let currentBook: LibraryItem | null = null;
     let currentSection: LiturgySection | null = null;
     let currentPart: LiturgicalPart | null = null;
     let currentLang: Language | null = null;
+    let lineNo = 0;
+    let column = 1;
+    let prevWasHeading = false;
+    // Open categories and books, innermost last, with the heading depth that opened them
+    const containers: { level: number; item: LibraryItem }[] = [];
+    const { kinds: headingKinds, markers: headingMarkers } = this.classifyHeadings(lines);
+    // Every ID in the library (categories, books, sections, parts) mapped to the line that defined it
+    const usedIds = new Map<string, number>();
+    // @if blocks still open, innermost last
+    const openConditions: OpenCondition[] = [];
+
+    const report = (severity: ParseDiagnostic['severity'], message: string, col: number = column) => {
+      diagnostics.push({ severity, line: lineNo, column: col, message });
+    };
 
-    const startNewPart = () => {
+    /**
+     * Resolves the ID for a new node. Explicit anchors are used verbatim and must be unique;
+     * generated IDs are suffixed until free so that colliding titles stay addressable.
+     */
+    const claimId = (generated: string, anchor: string | null, anchorCol: number): string => {
+      if (anchor !== null) {
+        if (!/^[A-Za-z0-9][\w.-]*$/.test(anchor)) {
+          report('error', `Invalid anchor "{#${anchor}}"; use letters, digits, ".", "-" and "_"`, anchorCol);
+        } else if (usedIds.has(anchor)) {
+          report('error', `Duplicate anchor "#${anchor}" (first defined on line ${usedIds.get(anchor)})`, anchorCol);
+          return anchor;
+        } else {
+          usedIds.set(anchor, lineNo);
+          return anchor;
+        }
+      }
+
+      let id = generated;
+      if (usedIds.has(id)) {
+        let n = 2;
+        while (usedIds.has(`${generated}-${n}`)) n++;
+        id = `${generated}-${n}`;
+        report('warning', `Generated ID "${generated}" is already used on line ${usedIds.get(generated)}; using "${id}". Add a {#anchor} to keep links stable`);
+      }
+      usedIds.set(id, lineNo);
+      return id;
+    };
+
+    const pendingIncludes: PendingInclude[] = [];
+    const partLines = new Map<LiturgicalPart, number>();
+
+    const startNewPart = (anchor: string | null = null, anchorCol: number = column) => {
       if (!currentSection) return;
       currentPart = {
-        id: `part-${currentSection.id}-${currentSection.parts.length + 1}`,
+        id: claimId(`part-${currentSection.id}-${currentSection.parts.length + 1}`, anchor, anchorCol),
         type: 'prayer',
         content: {}
       };
+      // A part that starts inside @if blocks is conditional as a whole
+      if (openConditions.length > 0) currentPart.conditions = openConditions.map(c => c.condition);
       currentSection.parts.push(currentPart);
+      partLines.set(currentPart, lineNo);
     };
 
-    const addContentLine = (lang: Language, lineText: string) => {
+    // Makes sure there is a part to write into, creating default containers for headless content
+    const ensurePart = () => {
       if (!currentPart) {
         if (!currentSection) {
           if (!currentBook) {
             if (!currentCat) {
               currentCat = {
-                id: 'cat-default',
+                id: claimId('cat-default', null, column),
                 title: 'General',
                 type: 'category',
                 children: []
               };
               library.push(currentCat);
+              containers.push({ level: 1, item: currentCat });
             }
             currentBook = {
-              id: 'book-default',
+              id: claimId('book-default', null, column),
               title: 'Default Book',
               type: 'book',
               sections: []
             };
             currentCat.children!.push(currentBook);
+            // The default book behaves as if it had a heading one level below its category
+            const catLevel = containers.find(c => c.item === currentCat)?.level || 1;
+            containers.push({ level: catLevel + 1, item: currentBook });
           }
           currentSection = {
-            id: 'sec-default',
+            id: claimId('sec-default', null, column),
             title: 'Section',
             parts: []
           };
           currentBook.sections!.push(currentSection);
+          const placement = [currentCat?.title, currentBook.title, currentSection.title].filter(Boolean).join(' / ');
+          report('warning', `Content appears before any section heading; it was placed in "${placement}"`);
         }
         startNewPart();
       }
+    };
 
+    const addContentLine = (lang: Language, lineText: string, literal: boolean = false) => {
+      ensurePart();
       if (currentPart) {
         if (!currentPart.content[lang]) {
           currentPart.content[lang] = [];
         }
-        const cleaned = lineText.trim();
+        let cleaned = lineText.trim();
         if (cleaned) {
-          currentPart.content[lang]!.push(cleaned);
+          const stanzas = currentPart.content[lang]!;
+          // "P: ...", "D: ..." and "C: ..." mark who says the stanza
+          const roleMatch = literal ? null : cleaned.match(/^([PDC])\s*:\s*(\S.*)$/);
+          if (roleMatch) {
+            if (!currentPart.roles) currentPart.roles = {};
+            const roles = currentPart.roles[lang] || (currentPart.roles[lang] = []);
+            while (roles.length < stanzas.length) roles.push(null);
+            roles.push(this.rolePrefixes[roleMatch[1]]);
+            cleaned = roleMatch[2];
+          }
+          // Blocks opened inside the part make just these stanzas conditional
+          const rowConditions = openConditions.map(c => c.condition).filter(c => !currentPart!.conditions?.includes(c));
+          if (rowConditions.length > 0) {
+            if (!currentPart.rowConditions) currentPart.rowConditions = {};
+            const conditions = currentPart.rowConditions[lang] || (currentPart.rowConditions[lang] = []);
+            while (conditions.length < stanzas.length) conditions.push(null);
+            conditions.push(rowConditions);
+          }
+          const textCol = lines[lineNo - 1].indexOf(cleaned) + 1;
+          InlineMarkup.findIssues(cleaned).forEach(issue => report('warning', issue.message, textCol + issue.offset));
+          const legacy = lang === Language.COPTIC && !literal ? LegacyCoptic.detect(cleaned) : null;
+          if (legacy) {
+            report('warning', `Looks like text in the legacy ${LegacyCoptic.label(legacy)} font; use "Convert Legacy Coptic" to turn it into Unicode`, textCol);
+          }
+          // "~" holds a row open in one language so the others stay aligned
+          stanzas.push(!literal && cleaned === '~' ? '' : cleaned);
         }
       }
     };
 
-    const langTagMap: { [key: string]: Language } = {
-      'EN': Language.ENGLISH,
-      'COP': Language.COPTIC,
-      'AR': Language.ARABIC,
-      'TRAN-EN': Language.TRANSLITERATED_ENGLISH,
-      'TRAN-AR': Language.TRANSLITERATED_ARABIC,
+    // Leaving a block that made the open part conditional: what follows belongs to a new part
+    const closeCondition = (condition: SeasonCondition) => {
+      if (currentPart?.conditions?.includes(condition)) {
+        currentPart = null;
+        currentLang = null;
+      }
     };
 
-    lines.forEach(line => {
+    lines.forEach((line, idx) => {
       const trimmed = line.trim();
       if (!trimmed) {
         return;
       }
+      lineNo = idx + 1;
+      column = line.length - line.trimStart().length + 1;
       
-      if (trimmed.startsWith('###')) {
-        const title = trimmed.replace('###', '').trim();
-        currentSection = { 
-          id: `sec-${this.slugify(currentBook?.title || 'cat')}-${this.slugify(title)}`, 
-          title, 
-          parts: [] 
-        };
-        if (currentBook) {
-          if (!currentBook.sections) currentBook.sections = [];
-          currentBook.sections.push(currentSection);
-        }
-        startNewPart();
-        currentLang = null;
-      } else if (trimmed.startsWith('##')) {
-        const title = trimmed.replace('##', '').trim();
-        currentBook = { 
-          id: `book-${this.slugify(currentCat?.title || 'root')}-${this.slugify(title)}`, 
-          title, 
-          type: 'book', 
-          sections: [] 
-        };
-        if (currentCat) {
-          if (!currentCat.children) currentCat.children = [];
-          currentCat.children.push(currentBook);
+      const headingMatch = trimmed.match(/^(#+)(.*)$/);
+      const followsHeading = prevWasHeading;
+      prevWasHeading = Boolean(headingMatch);
+
+      if (headingMatch) {
+        const level = headingMatch[1].length;
+        const kind = headingKinds.get(idx)!;
+        const { title, anchor, anchorOffset } = this.splitAnchor(headingMatch[2]);
+        const anchorCol = column + level + anchorOffset;
+
+        if (openConditions.length > 0) {
+          report('error', `@if on line ${openConditions[0].line} is not closed before this heading`);
+          openConditions.length = 0;
         }
+
+        // Close every container at this depth or deeper
+        while (containers.length > 0 && containers[containers.length - 1].level >= level) containers.pop();
+        const parent = containers.length > 0 ? containers[containers.length - 1] : null;
+        currentBook = parent?.item.type === 'book' ? parent.item : null;
+        currentCat = [...containers].reverse().find(c => c.item.type === 'category')?.item || null;
         currentSection = null;
         currentPart = null;
         currentLang = null;
-      } else if (trimmed.startsWith('#')) {
-        const title = trimmed.replace('#', '').trim();
-        currentCat = { 
-          id: `cat-${this.slugify(title)}`, 
-          title, 
-          type: 'category', 
-          children: [] 
-        };
-        library.push(currentCat);
-        currentBook = null;
-        currentSection = null;
-        currentPart = null;
-        currentLang = null;
-      } else if (trimmed === '---') {
-        startNewPart();
+
+        if (kind === 'section') {
+          if (!title) report('warning', 'Section heading has no title');
+          currentSection = { 
+            id: claimId(`sec-${this.slugify(currentBook?.title || 'cat')}-${this.slugify(title)}`, anchor, anchorCol), 
+            title, 
+            parts: [] 
+          };
+          if (currentBook) {
+            // Documents from before nesting used any number of "#" past three for a section
+            if (parent!.level !== level - 1) {
+              report('warning', `Section "${title}" is nested too deeply; sections of "${currentBook.title}" use ${'#'.repeat(parent!.level + 1)}`);
+            }
+            if (!currentBook.sections) currentBook.sections = [];
+            currentBook.sections.push(currentSection);
+          } else {
+            report('error', `Section "${title}" has no enclosing book heading and will not appear in the library`);
+          }
+          startNewPart();
+        } else if (parent && parent.item.type === 'book') {
+          report('error', `"${title}" cannot be nested inside book "${parent.item.title}"; only sections can`);
+        } else if (kind === 'book') {
+          if (!title) report('warning', 'Book heading has no title');
+          currentBook = { 
+            id: claimId(`book-${this.slugify(currentCat?.title || 'root')}-${this.slugify(title)}`, anchor, anchorCol), 
+            title, 
+            type: 'book', 
+            sections: [] 
+          };
+          if (currentCat) {
+            if (!currentCat.children) currentCat.children = [];
+            currentCat.children.push(currentBook);
+          } else if (headingMarkers.get(idx) === 'book') {
+            library.push(currentBook);
+          } else {
+            report('error', `Book "${title}" has no enclosing "#" category heading and will not appear in the library`);
+          }
+          containers.push({ level, item: currentBook });
+        } else {
+          if (!title) report('warning', 'Category heading has no title');
+          const parentCat = parent ? parent.item : null;
+          currentCat = { 
+            id: claimId(parentCat ? `cat-${this.slugify(parentCat.title)}-${this.slugify(title)}` : `cat-${this.slugify(title)}`, anchor, anchorCol), 
+            title, 
+            type: 'category', 
+            children: [] 
+          };
+          if (parentCat) {
+            if (!parentCat.children) parentCat.children = [];
+            parentCat.children.push(currentCat);
+          } else {
+            library.push(currentCat);
+          }
+          currentBook = null;
+          containers.push({ level, item: currentCat });
+        }
+      } else if (/^---\s*(\{#[^}]*\})?$/.test(trimmed)) {
+        const { anchor, anchorOffset } = this.splitAnchor(trimmed.slice(3));
+        const anchorCol = column + 3 + anchorOffset;
+        if (!currentSection) {
+          report('warning', 'Slide separator "---" outside of a section is ignored');
+        } else if (anchor !== null && currentPart && Object.keys(currentPart.content).length === 0) {
+          // An anchored separator directly after a heading names the part the heading opened
+          currentPart.id = claimId(currentPart.id, anchor, anchorCol);
+        } else {
+          startNewPart(anchor, anchorCol);
+        }
         currentLang = null;
+      } else if (trimmed.startsWith('\\')) {
+        // A leading backslash keeps a stanza that looks like markup ("#", "@", "[..]", "P:") as plain text
+        if (currentLang) {
+          addContentLine(currentLang, trimmed.slice(1), true);
+        } else {
+          report('warning', 'Text has no language tag and is ignored');
+        }
+      } else if (trimmed.startsWith('@')) {
+        const [, directive, arg = ''] = trimmed.match(/^@(\S*)\s*(.*)$/)!;
+        if (directive.toLowerCase() === 'book' || directive.toLowerCase() === 'category') {
+          // Already applied while classifying headings; only its placement is checked here
+          if (!followsHeading) report('error', `@${directive.toLowerCase()} must directly follow the heading it marks`);
+          prevWasHeading = followsHeading;
+        } else if (directive.toLowerCase() === 'type') {
+          const partType = arg.trim().toLowerCase() as LiturgicalPart['type'];
+          if (!this.partTypes.includes(partType)) {
+            report('error', `Unknown part type "${arg.trim()}"; expected one of ${this.partTypes.join(', ')}`);
+            return;
+          }
+          ensurePart();
+          if (currentPart) currentPart.type = partType;
+        } else if (directive.toLowerCase() === 'include') {
+          const { title: ref, anchor, anchorOffset } = this.splitAnchor(arg);
+          const refMatch = ref.match(/^([\w.-]+)\/([\w.-]+)(?:\/([\w.-]+))?$/);
+          if (!refMatch) {
+            report('error', `Malformed include "${ref}"; expected @include <book-id>/<section-id>[/<part-id>]`);
+            return;
+          }
+          const anchorCol = column + trimmed.length - arg.length + anchorOffset;
+          ensurePart();
+          if (!currentPart) return;
+          const openPart: LiturgicalPart = currentPart;
+          // An include right after a heading or "---" takes the place of the still-empty part
+          if (Object.keys(openPart.content).length === 0 && !openPart.title) {
+            if (anchor !== null) openPart.id = claimId(openPart.id, anchor, anchorCol);
+          } else {
+            startNewPart(anchor, anchorCol);
+          }
+          pendingIncludes.push({
+            placeholder: currentPart!,
+            bookId: refMatch[1],
+            sectionId: refMatch[2],
+            partId: refMatch[3] || null,
+            line: lineNo,
+            column: column + trimmed.length - arg.length
+          });
+          // Text after the include starts a fresh part rather than extending the included one
+          currentPart = null;
+          currentLang = null;
+        } else if (directive.toLowerCase() === 'readings') {
+          const service = arg.trim().toLowerCase();
+          if (!Lectionary.isKnownService(service)) {
+            report('error', `Unknown service "${arg.trim()}"; expected @readings ${Lectionary.services.join(' | ')}`);
+            return;
+          }
+          ensurePart();
+          if (!currentPart) return;
+          // Like @include, the readings take the place of a still-empty part
+          if (Object.keys(currentPart.content).length > 0 || currentPart.title) startNewPart();
+          currentPart!.type = 'reading';
+          currentPart!.readings = service;
+          currentPart = null;
+          currentLang = null;
+        } else if (directive.toLowerCase() === 'scripture') {
+          const ref = BibleService.parseReference(arg);
+          if (!ref) {
+            report('error', `Malformed scripture reference "${arg.trim()}"; expected e.g. @scripture Ps 50:1-5`);
+            return;
+          }
+          ensurePart();
+          if (!currentPart) return;
+          if (Object.keys(currentPart.content).length > 0 || currentPart.title) startNewPart();
+          const part: LiturgicalPart = currentPart!;
+          const citation = BibleService.formatReference(ref);
+          const { labels, content, incomplete } = BibleService.lookup(ref);
+          part.type = 'reading';
+          part.scripture = citation;
+          if (Object.keys(content).length === 0) {
+            report('warning', `No Bible text is loaded for ${citation}`);
+            part.content = { [Language.ENGLISH]: [InlineMarkup.serialize([{ text: `${citation}: no Bible text loaded`, rubric: true }])] };
+          } else {
+            if (incomplete.length > 0) report('warning', `Some verses of ${citation} are missing in ${incomplete.join(', ')}`);
+            part.content = content;
+            part.rowLabels = labels;
+          }
+          // Text after the citation starts a fresh part
+          currentPart = null;
+          currentLang = null;
+        } else if (directive.toLowerCase() === 'slides') {
+          const pagination = this.parsePagination(arg);
+          if (!pagination) {
+            report('error', `Malformed pagination "${arg.trim()}"; expected @slides fill | row | part | <rows per slide>`);
+            return;
+          }
+          if (!currentSection) {
+            report('warning', '@slides outside of a section is ignored');
+            return;
+          }
+          currentSection.pagination = pagination;
+        } else if (directive.toLowerCase() === 'if') {
+          const condMatch = arg.trim().match(/^season\s*(!?=)\s*(\S.*)$/i);
+          if (!condMatch) {
+            report('error', `Malformed condition "${arg.trim()}"; expected @if season=<name>[,<name>...] or season!=<name>`);
+            return;
+          }
+          const seasons = condMatch[2].split(',').map(s => s.trim().toLowerCase()).filter(Boolean);
+          const unknown = seasons.filter(s => !CopticCalendar.isKnownSeason(s));
+          if (unknown.length > 0) {
+            report('error', `Unknown season "${unknown[0]}"; expected one of ${CopticCalendar.seasons.map(s => s.key).join(', ')}`);
+            return;
+          }
+          const condition: SeasonCondition = condMatch[1] === '!=' ? { seasons, negate: true } : { seasons };
+          // Right after a heading or "---" the block wraps the whole part, otherwise the stanzas inside it
+          if (currentPart && currentLang === null && Object.keys(currentPart.content).length === 0 && !currentPart.title) {
+            currentPart.conditions = [...(currentPart.conditions || []), condition];
+          }
+          openConditions.push({ condition, line: lineNo, column, hasElse: false });
+        } else if (directive.toLowerCase() === 'else') {
+          const open = openConditions[openConditions.length - 1];
+          if (!open) {
+            report('error', '@else without a matching @if');
+          } else if (open.hasElse) {
+            report('error', `@if on line ${open.line} already has an @else`);
+          } else {
+            closeCondition(open.condition);
+            open.condition = open.condition.negate ? { seasons: open.condition.seasons } : { seasons: open.condition.seasons, negate: true };
+            open.hasElse = true;
+          }
+        } else if (directive.toLowerCase() === 'endif') {
+          const open = openConditions.pop();
+          if (!open) {
+            report('error', '@endif without a matching @if');
+          } else {
+            closeCondition(open.condition);
+          }
+        } else {
+          report('error', `Unknown directive "@${directive}"`);
+        }
       } else {
-        const tagMatch = trimmed.match(/^\[(EN|COP|AR|TRAN-EN|TRAN-AR)\]\s*:?\s*(.*)$/i);
-        if (tagMatch) {
-          const matchedTag = tagMatch[1].toUpperCase();
-          const targetLanguage = langTagMap[matchedTag];
-          if (targetLanguage) {
-            currentLang = targetLanguage;
-            const inlineText = tagMatch[2].trim();
-            if (inlineText) {
-              addContentLine(currentLang, inlineText);
-            }
+        const tagMatch = trimmed.match(/^\[([A-Za-z]{2,}(?:-[A-Za-z]{2,})*)\]\s*:?\s*(.*)$/);
+        const tag = tagMatch ? tagMatch[1].toUpperCase() : '';
+        const titleLanguage = tag.endsWith('-TITLE') ? tag.slice(0, -'-TITLE'.length) : '';
+        if (tagMatch && titleLanguage && isKnownLanguage(titleLanguage)) {
+          const partTitle = tagMatch[2].trim();
+          if (!partTitle) {
+            report('warning', `Part title [${tag}] is empty`);
+            return;
+          }
+          ensurePart();
+          if (currentPart) {
+            if (!currentPart.title) currentPart.title = {};
+            currentPart.title[titleLanguage] = partTitle;
+          }
+        } else if (tagMatch && isKnownLanguage(tag)) {
+          currentLang = tag;
+          const inlineText = tagMatch[2].trim();
+          if (inlineText) {
+            addContentLine(currentLang, inlineText);
+          }
+        } else {
+          const unknownTag = tagMatch;
+          if (unknownTag && !unknownTag[2]) {
+            // Alone on its line the brackets can only be meant as a tag
+            report('error', `Unknown language tag [${unknownTag[1]}]; expected one of ${LANGUAGE_REGISTRY.map(l => `[${l.code}]`).join(', ')}`);
+          } else if (unknownTag && currentLang) {
+            report('warning', `[${unknownTag[1]}] is not a language tag, so the line is read as text; start it with "\\" to mark it as text`);
+          }
+          if (currentLang) {
+            // Each new line under the active language is treated as an individual stanza item
+            addContentLine(currentLang, trimmed);
+          } else if (!unknownTag || unknownTag[2]) {
+            report('warning', 'Text has no language tag and is ignored');
           }
-        } else if (currentLang) {
-          // Each new line under the active language is treated as an individual stanza item
-          addContentLine(currentLang, trimmed);
         }
       }
     });
 
-    return library;
+    openConditions.forEach(open => {
+      diagnostics.push({ severity: 'error', line: open.line, column: open.column, message: '@if is never closed with @endif' });
+    });
+
+    // Checked before includes are resolved so shared parts are reported once, at their source
+    const alignment = this.findMisalignedParts(library, partLines);
+    alignment.forEach(issue => {
+      const counts = Object.entries(issue.rowCounts).map(([lang, n]) => `${lang} ${n}`).join(', ');
+      diagnostics.push({
+        severity: 'warning',
+        line: issue.line,
+        column: 1,
+        message: `Languages have different row counts (${counts}); rows will not line up. Use "~" for an intentionally empty row`
+      });
+    });
+
+    this.fillTransliterations(library);
+    this.resolveIncludes(library, pendingIncludes, usedIds, diagnostics);
+    diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+
+    return { library, diagnostics, alignment };
+  }
+
+  /**
+   * Generated transliterations are filled in after the alignment check, so only
+   * hand-written rows are compared, and before includes so embedded parts share them
+   */
+  private static fillTransliterations(items: LibraryItem[]) {
+    items.forEach(item => {
+      item.sections?.forEach(section => section.parts.forEach(part => Transliterator.fillPart(part)));
+      if (item.children) this.fillTransliterations(item.children);
+    });
+  }
+
+  private static findMisalignedParts(library: LibraryItem[], partLines: Map<LiturgicalPart, number>): AlignmentIssue[] {
+    const issues: AlignmentIssue[] = [];
+    const walk = (items: LibraryItem[]) => {
+      items.forEach(item => {
+        item.sections?.forEach(section => section.parts.forEach(part => {
+          const rowCounts: AlignmentIssue['rowCounts'] = {};
+          (Object.keys(part.content) as Language[]).forEach(lang => {
+            const n = part.content[lang]?.length || 0;
+            if (n > 0) rowCounts[lang] = n;
+          });
+          if (new Set(Object.values(rowCounts)).size > 1) {
+            issues.push({
+              bookTitle: item.title,
+              sectionTitle: section.title,
+              partId: part.id,
+              line: partLines.get(part) || 1,
+              rowCounts
+            });
+          }
+        }));
+        if (item.children) walk(item.children);
+      });
+    };
+    walk(library);
+    return issues.sort((a, b) => a.line - b.line);
+  }
+
+  /**
+   * Inverse of `parseTextToLibrary`: writes a library back out in the editable text format.
+   * IDs that the parser would not generate on its own are kept as `{#anchor}`s, and parts
+   * embedded via @include are written back as includes, so parsing the result yields the same library.
+   * Sections always parse with at least one part, so a section without parts comes back with one empty part.
+   */
+  static serializeLibraryToText(library: LibraryItem[]): string {
+    const out: string[] = [];
+    const usedIds = new Set<string>();
+    const roleLetters: { [key in SpeakerRole]: string } = { priest: 'P', deacon: 'D', people: 'C' };
+
+    // Mirrors the parser's claimId: an anchor is only needed when the generated ID would differ
+    const anchorFor = (id: string, generated: string): string => {
+      let expected = generated;
+      let n = 2;
+      while (usedIds.has(expected)) expected = `${generated}-${n++}`;
+      if (id === expected) {
+        usedIds.add(expected);
+        return '';
+      }
+      usedIds.add(id);
+      return ` {#${id}}`;
+    };
+
+    const originals = new Map<string, LiturgicalPart>();
+    const indexOriginals = (items: LibraryItem[]) => {
+      items.forEach(item => {
+        item.sections?.forEach(section => section.parts.forEach(part => {
+          if (!part.includedFrom) originals.set(`${item.id}/${section.id}/${part.id}`, part);
+        }));
+        if (item.children) indexOriginals(item.children);
+      });
+    };
+    indexOriginals(library);
+
+    // Stanzas that the parser would read as markup are escaped with a leading backslash
+    const escapeStanza = (text: string, hasRole: boolean) => {
+      const flat = text.replace(/\s*\n\s*/g, ' ').trim();
+      const looksLikeMarkup = flat === '~' || /^[#@[\\]/.test(flat) || /^---\s*(\{#[^}]*\})?$/.test(flat) || (!hasRole && /^[PDC]\s*:\s*\S/.test(flat));
+      return looksLikeMarkup ? `\\${flat}` : flat;
+    };
+
+    const writePart = (part: LiturgicalPart, section: LiturgySection, partIdx: number) => {
+      const generated = `part-${section.id}-${partIdx + 1}`;
+      if (partIdx === 0) {
+        // The heading opens the first part; an anchored separator right after it renames that part
+        usedIds.add(generated);
+        if (part.id !== generated) {
+          out.push(`---${anchorFor(part.id, generated)}`);
+        }
+      } else {
+        out.push(`---${anchorFor(part.id, generated)}`);
+      }
+
+      const source = part.includedFrom;
+      const original = source ? originals.get(`${source.bookId}/${source.sectionId}/${source.partId}`) : undefined;
+      // Included parts carry the include's conditions followed by the original's own
+      const conditions = (part.conditions || []).slice(0, (part.conditions?.length || 0) - (original?.conditions?.length || 0));
+      conditions.forEach(c => out.push(`@if ${this.formatCondition(c)}`));
+      const closeConditions = () => conditions.forEach(() => out.push('@endif'));
+
+      if (source && original) {
+        out.push(`@include ${source.bookId}/${source.sectionId}/${source.partId}`);
+        closeConditions();
+        return;
+      }
+      if (part.readings || part.scripture) {
+        out.push(part.readings ? `@readings ${part.readings}` : `@scripture ${part.scripture}`);
+        closeConditions();
+        return;
+      }
+
+      if (part.type !== 'prayer') out.push(`@type ${part.type}`);
+      LANGUAGE_REGISTRY.forEach(({ code: lang }) => {
+        const title = part.title?.[lang];
+        if (title) out.push(`[${lang}-TITLE] ${title}`);
+      });
+      LANGUAGE_REGISTRY.forEach(({ code: lang }) => {
+        // Generated transliterations are not written out; the parser fills them in again
+        const generatedRows = part.generated?.[lang] || [];
+        const stanzas = part.content[lang]?.slice(0, generatedRows.length > 0 ? generatedRows.lastIndexOf(false) + 1 : undefined);
+        if (!stanzas || stanzas.length === 0) return;
+        out.push(`[${lang}]`);
+        // Consecutive stanzas under the same conditions share one @if block
+        let openRow: SeasonCondition[] = [];
+        const rowKey = (conds: SeasonCondition[]) => conds.map(c => this.formatCondition(c)).join(' ');
+        stanzas.forEach((stanza, i) => {
+          const rowConditions = part.rowConditions?.[lang]?.[i] || [];
+          if (rowKey(rowConditions) !== rowKey(openRow)) {
+            openRow.forEach(() => out.push('@endif'));
+            rowConditions.forEach(c => out.push(`@if ${this.formatCondition(c)}`));
+            openRow = rowConditions;
+          }
+          const role = part.roles?.[lang]?.[i];
+          const text = stanza.trim() && !generatedRows[i] ? escapeStanza(stanza, Boolean(role)) : '~';
+          out.push(role ? `${roleLetters[role]}: ${text}` : text);
+        });
+        openRow.forEach(() => out.push('@endif'));
+      });
+      closeConditions();
+    };
+
+    // Heading depth follows nesting; @category / @book are added wherever the classic
+    // "#" category, "##" book layout would classify the heading differently
+    const writeItem = (item: LibraryItem, parent: LibraryItem | null, depth: number) => {
+      if (out.length > 0) out.push('');
+      const hashes = '#'.repeat(depth);
+      if (item.type === 'category') {
+        const generated = parent ? `cat-${this.slugify(parent.title)}-${this.slugify(item.title)}` : `cat-${this.slugify(item.title)}`;
+        out.push(`${hashes} ${item.title}${anchorFor(item.id, generated)}`);
+        if (depth !== 1) out.push('@category');
+        (item.children || []).forEach(child => writeItem(child, item, depth + 1));
+        return;
+      }
+
+      out.push(`${hashes} ${item.title}${anchorFor(item.id, `book-${this.slugify(parent?.title || 'root')}-${this.slugify(item.title)}`)}`);
+      if (depth !== 2) out.push('@book');
+      (item.sections || []).forEach(section => {
+        out.push('', `${hashes}# ${section.title}${anchorFor(section.id, `sec-${this.slugify(item.title || 'cat')}-${this.slugify(section.title)}`)}`);
+        if (section.pagination) out.push(`@slides ${this.formatPagination(section.pagination)}`);
+        section.parts.forEach((part, partIdx) => writePart(part, section, partIdx));
+      });
+    };
+
+    library.forEach(item => writeItem(item, null, 1));
+
+    return out.join('\n') + '\n';
+  }
+
+  /**
+   * Replaces @include placeholders with the referenced parts once the whole document is known.
+   * Included parts share their content with the original and record where they came from.
+   * The IDs numbered after the placeholder's are claimed in `usedIds` like authored anchors.
+   */
+  private static resolveIncludes(library: LibraryItem[], pending: PendingInclude[], usedIds: Map<string, number>, diagnostics: ParseDiagnostic[]) {
+    if (pending.length === 0) return;
+
+    const sectionsByKey = new Map<string, { bookId: string; section: LiturgySection }>();
+    const allSections: { key: string; section: LiturgySection }[] = [];
+    const walk = (items: LibraryItem[]) => {
+      items.forEach(item => {
+        item.sections?.forEach(section => {
+          const key = `${item.id}/${section.id}`;
+          if (!sectionsByKey.has(key)) sectionsByKey.set(key, { bookId: item.id, section });
+          allSections.push({ key, section });
+        });
+        if (item.children) walk(item.children);
+      });
+    };
+    walk(library);
+
+    const pendingByPart = new Map<LiturgicalPart, PendingInclude>();
+    pending.forEach(p => pendingByPart.set(p.placeholder, p));
+
+    const resolved = new Set<LiturgySection>();
+    const stack: string[] = [];
+    const fail = (p: PendingInclude, message: string) => {
+      diagnostics.push({ severity: 'error', line: p.line, column: p.column, message });
+    };
+    const claimId = (p: PendingInclude, id: string): string => {
+      if (usedIds.has(id)) {
+        fail(p, `Duplicate ID "#${id}" for an included part (first defined on line ${usedIds.get(id)}); anchor the @include differently`);
+      } else {
+        usedIds.set(id, p.line);
+      }
+      return id;
+    };
+
+    const expand = (section: LiturgySection, key: string) => {
+      if (resolved.has(section)) return;
+      stack.push(key);
+      const parts: LiturgicalPart[] = [];
+
+      section.parts.forEach(part => {
+        const include = pendingByPart.get(part);
+        if (!include) {
+          parts.push(part);
+          return;
+        }
+
+        const targetKey = `${include.bookId}/${include.sectionId}`;
+        const target = sectionsByKey.get(targetKey);
+        if (!target) {
+          fail(include, `Include target "${targetKey}" not found`);
+          return;
+        }
+        if (stack.includes(targetKey)) {
+          const cycle = [...stack.slice(stack.indexOf(targetKey)), targetKey].join(' → ');
+          fail(include, `Include cycle: ${cycle}`);
+          return;
+        }
+
+        expand(target.section, targetKey);
+        const sources = include.partId
+          ? target.section.parts.filter(p => p.id === include.partId)
+          : target.section.parts;
+        if (sources.length === 0) {
+          fail(include, include.partId ? `Part "${include.partId}" not found in "${targetKey}"` : `Included section "${targetKey}" has no parts`);
+          return;
+        }
+
+        sources.forEach((src, k) => {
+          const conditions = [...(include.placeholder.conditions || []), ...(src.conditions || [])];
+          parts.push({
+            ...src,
+            id: sources.length === 1 ? include.placeholder.id : claimId(include, `${include.placeholder.id}.${k + 1}`),
+            includedFrom: src.includedFrom || { bookId: target.bookId, sectionId: target.section.id, partId: src.id },
+            ...(conditions.length > 0 ? { conditions } : {})
+          });
+        });
+      });
+
+      section.parts = parts;
+      stack.pop();
+      resolved.add(section);
+    };
+
+    allSections.forEach(({ key, section }) => expand(section, key));
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,194 @@
+import { CopticDate, Language, MoveableFeasts, SeasonCondition } from '../types.ts';
+
+interface DayContext {
+  coptic: CopticDate;
+  dayOfYear: number; // 1-365/366 counted from 1 Thout
+  fromPascha: number; // Days after this Gregorian year's Pascha; negative before it
+  fromNativity: number; // Days after this Coptic year's Nativity; negative before it
+  weekday: number; // 0 = Sunday
+}
+
+interface SeasonDefinition {
+  key: string;
+  label: string;
+  test: (day: DayContext) => boolean;
+}
+
+// Seasons with their own hymn tunes; a day in none of them is "annual"
+const TUNE_SEASONS = ['kiahk', 'nativity', 'theophany', 'jonah-fast', 'great-lent', 'palm-sunday', 'holy-week', 'holy-fifty-days'];
+
+/**
+ * Date arithmetic runs on Julian Day Numbers so the Gregorian, Julian and Coptic
+ * calendars can be converted between without time zone surprises.
+ */
+export class CopticCalendar {
+  static monthNames = [
+    'Thout', 'Paopi', 'Hathor', 'Koiak', 'Tobi', 'Meshir', 'Paremhat',
+    'Parmouti', 'Pashons', 'Paoni', 'Epip', 'Mesori', 'Pi Kogi Enavot'
+  ];
+
+  static arabicMonthNames = [
+    'توت', 'بابه', 'هاتور', 'كيهك', 'طوبة', 'أمشير', 'برمهات',
+    'برمودة', 'بشنس', 'بؤونة', 'أبيب', 'مسرى', 'النسيء'
+  ];
+
+  private static copticEpoch = 1825030; // JDN of 1 Thout, 1 AM
+
+  // Ordered by first occurrence in the Coptic year, which is how the header lists them
+  static seasons: SeasonDefinition[] = [
+    { key: 'nayrouz', label: 'Nayrouz', test: d => d.dayOfYear <= 16 },
+    { key: 'cross', label: 'Feast of the Cross', test: d => d.dayOfYear >= 17 && d.dayOfYear <= 19 },
+    { key: 'nativity-fast', label: 'Nativity Fast', test: d => d.fromNativity >= -43 && d.fromNativity <= -1 },
+    { key: 'kiahk', label: 'Kiahk', test: d => d.coptic.month === 4 },
+    { key: 'nativity', label: 'Nativity', test: d => d.fromNativity >= 0 && d.fromNativity <= 7 },
+    { key: 'theophany', label: 'Theophany', test: d => d.dayOfYear >= 131 && d.dayOfYear <= 133 },
+    { key: 'jonah-fast', label: "Jonah's Fast", test: d => d.fromPascha >= -69 && d.fromPascha <= -66 },
+    { key: 'great-lent', label: 'Great Lent', test: d => d.fromPascha >= -55 && d.fromPascha <= -8 },
+    { key: 'palm-sunday', label: 'Palm Sunday', test: d => d.fromPascha === -7 },
+    { key: 'holy-week', label: 'Holy Week', test: d => d.fromPascha >= -6 && d.fromPascha <= -1 },
+    { key: 'pascha', label: 'Feast of the Resurrection', test: d => d.fromPascha === 0 },
+    { key: 'holy-fifty-days', label: 'Holy Fifty Days', test: d => d.fromPascha >= 0 && d.fromPascha <= 49 },
+    { key: 'ascension', label: 'Ascension', test: d => d.fromPascha >= 39 && d.fromPascha <= 48 },
+    { key: 'pentecost', label: 'Pentecost', test: d => d.fromPascha === 49 },
+    { key: 'apostles-fast', label: "Apostles' Fast", test: d => d.fromPascha >= 50 && d.coptic.month >= 9 && d.dayOfYear <= 304 },
+    { key: 'apostles', label: 'Feast of the Apostles', test: d => d.dayOfYear === 305 },
+    { key: 'assumption-fast', label: 'Fast of the Theotokos', test: d => d.dayOfYear >= 331 && d.dayOfYear <= 345 },
+    // Nativity (Pashons 1), Entrance into the Temple (Koiak 3), Dormition (Tobi 21), Paoni 21, Assumption (Mesori 16)
+    { key: 'theotokos', label: 'Feast of the Theotokos', test: d => [241, 93, 141, 291, 346].includes(d.dayOfYear) },
+    { key: 'adam', label: 'Adam days', test: d => d.weekday <= 2 },
+    { key: 'watos', label: 'Watos days', test: d => d.weekday >= 3 },
+    { key: 'annual', label: 'Annual', test: () => false } // Filled in by getSeasons
+  ];
+
+  static isKnownSeason(key: string): boolean {
+    return this.seasons.some(s => s.key === key);
+  }
+
+  static toCoptic(date: Date): CopticDate {
+    const jdn = this.gregorianToJdn(date.getFullYear(), date.getMonth() + 1, date.getDate());
+    const year = Math.floor((4 * (jdn - this.copticEpoch) + 1463) / 1461);
+    const month = Math.floor((jdn - this.copticToJdn(year, 1, 1)) / 30) + 1;
+    const day = jdn + 1 - this.copticToJdn(year, month, 1);
+    return { year, month, day, monthName: this.monthNames[month - 1] };
+  }
+
+  static fromCoptic(year: number, month: number, day: number): Date {
+    return this.jdnToDate(this.copticToJdn(year, month, day));
+  }
+
+  /**
+   * Alexandrian Pascha: the Julian computus, converted to the Gregorian calendar
+   */
+  static getPascha(year: number): Date {
+    const a = year % 4;
+    const b = year % 7;
+    const c = year % 19;
+    const d = (19 * c + 15) % 30;
+    const e = (2 * a + 4 * b - d + 34) % 7;
+    const month = Math.floor((d + e + 114) / 31);
+    const day = ((d + e + 114) % 31) + 1;
+    return this.jdnToDate(this.julianToJdn(year, month, day));
+  }
+
+  /**
+   * The Nativity of Coptic year `year`. It is kept on 7 January, which is 29 Koiak except in
+   * the year before a Coptic leap year, when it is 28 Koiak.
+   */
+  static getNativity(year: number): Date {
+    return this.jdnToDate(this.gregorianToJdn(year + 284, 1, 7));
+  }
+
+  static getMoveableFeasts(year: number): MoveableFeasts {
+    const pascha = this.getPascha(year);
+    const offset = (days: number) => this.addDays(pascha, days);
+    return {
+      jonahFast: offset(-69),
+      greatLent: offset(-55),
+      palmSunday: offset(-7),
+      pascha,
+      ascension: offset(39),
+      pentecost: offset(49)
+    };
+  }
+
+  /**
+   * Keys of every season the day belongs to, e.g. ["kiahk", "nativity-fast", "adam"]
+   */
+  static getSeasons(date: Date): string[] {
+    const coptic = this.toCoptic(date);
+    const jdn = this.dateToJdn(date);
+    const day: DayContext = {
+      coptic,
+      dayOfYear: (coptic.month - 1) * 30 + coptic.day,
+      fromPascha: jdn - this.dateToJdn(this.getPascha(date.getFullYear())),
+      fromNativity: jdn - this.dateToJdn(this.getNativity(coptic.year)),
+      weekday: date.getDay()
+    };
+    const keys = this.seasons.filter(s => s.test(day)).map(s => s.key);
+    if (!keys.some(k => TUNE_SEASONS.includes(k))) keys.push('annual');
+    return keys;
+  }
+
+  static conditionsHold(conditions: SeasonCondition[] | null | undefined, seasons: string[]): boolean {
+    return (conditions || []).every(c => c.seasons.some(s => seasons.includes(s)) !== Boolean(c.negate));
+  }
+
+  static formatCopticDate(coptic: CopticDate, lang: Language = Language.ENGLISH): string {
+    if (lang === Language.ARABIC) return `${coptic.day} ${this.arabicMonthNames[coptic.month - 1]} ${coptic.year} ش`;
+    return `${coptic.day} ${coptic.monthName} ${coptic.year} A.M.`;
+  }
+
+  /**
+   * Reads a YYYY-MM-DD string as a local date; null for anything else
+   */
+  static parseIsoDate(text: string | null): Date | null {
+    const match = text?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) return null;
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  static toIsoDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  static addDays(date: Date, days: number): Date {
+    return this.jdnToDate(this.dateToJdn(date) + days);
+  }
+
+  private static copticToJdn(year: number, month: number, day: number): number {
+    return this.copticEpoch - 1 + 365 * (year - 1) + Math.floor(year / 4) + 30 * (month - 1) + day;
+  }
+
+  private static gregorianToJdn(year: number, month: number, day: number): number {
+    const a = Math.floor((14 - month) / 12);
+    const y = year + 4800 - a;
+    const m = month + 12 * a - 3;
+    return day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - Math.floor(y / 100) + Math.floor(y / 400) - 32045;
+  }
+
+  private static julianToJdn(year: number, month: number, day: number): number {
+    const a = Math.floor((14 - month) / 12);
+    const y = year + 4800 - a;
+    const m = month + 12 * a - 3;
+    return day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - 32083;
+  }
+
+  private static dateToJdn(date: Date): number {
+    return this.gregorianToJdn(date.getFullYear(), date.getMonth() + 1, date.getDate());
+  }
+
+  private static jdnToDate(jdn: number): Date {
+    const a = jdn + 32044;
+    const b = Math.floor((4 * a + 3) / 146097);
+    const c = a - Math.floor(146097 * b / 4);
+    const d = Math.floor((4 * c + 3) / 1461);
+    const e = c - Math.floor(1461 * d / 4);
+    const m = Math.floor((5 * e + 2) / 153);
+    const day = e - Math.floor((153 * m + 2) / 5) + 1;
+    const month = m + 3 - 12 * Math.floor(m / 10);
+    const year = 100 * b + d - 4800 + Math.floor(m / 10);
+    return new Date(year, month - 1, day);
+  }
+}
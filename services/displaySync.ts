@@ -0,0 +1,81 @@
+import { AppSettings, LibraryItem, SlidePosition } from '../types.ts';
+
+export type DisplayMessage =
+  | { type: 'hello' } // A display window has opened and needs the current state
+  | { type: 'library'; library: LibraryItem[] }
+  | { type: 'settings'; settings: AppSettings }
+  | { type: 'slide'; bookId: string; position: SlidePosition | null; blackout: boolean };
+
+// Screen placement from the Window Management API, where the browser supports it
+interface ScreenDetailed {
+  availLeft: number;
+  availTop: number;
+  availWidth: number;
+  availHeight: number;
+}
+
+interface ScreenDetails {
+  screens: ScreenDetailed[];
+  currentScreen: ScreenDetailed;
+}
+
+/**
+ * Keeps the operator window and the audience display windows (and livestream overlays) of one browser in step.
+ * The operator posts the library, settings and current slide; a display that opens
+ * says hello and is answered with all three. Windows never hear their own messages.
+ */
+export class DisplaySync {
+  static readonly channelName = 'acp-display';
+  static readonly route = '/display';
+  static readonly overlayRoute = '/overlay';
+
+  private static channel: BroadcastChannel | null = null;
+
+  static isSupported(): boolean {
+    return typeof BroadcastChannel !== 'undefined';
+  }
+
+  static post(message: DisplayMessage) {
+    this.getChannel()?.postMessage(message);
+  }
+
+  /**
+   * Calls `listener` for every message from other windows; returns the unsubscribe function
+   */
+  static subscribe(listener: (message: DisplayMessage) => void): () => void {
+    const channel = this.getChannel();
+    if (!channel) return () => {};
+    const handle = (e: MessageEvent<DisplayMessage>) => listener(e.data);
+    channel.addEventListener('message', handle);
+    return () => channel.removeEventListener('message', handle);
+  }
+
+  /**
+   * Opens (or focuses) the audience window, full size on a second screen when the
+   * browser can tell us about one, otherwise as an ordinary popup to drag across
+   */
+  static async openDisplayWindow(): Promise<Window | null> {
+    let features = 'popup,width=1280,height=720';
+    const getScreenDetails = (window as Window & { getScreenDetails?: () => Promise<ScreenDetails> }).getScreenDetails;
+    if (getScreenDetails) {
+      try {
+        const details = await getScreenDetails.call(window);
+        const target = details.screens.find(s => s !== details.currentScreen);
+        if (target) {
+          features = `popup,left=${target.availLeft},top=${target.availTop},width=${target.availWidth},height=${target.availHeight}`;
+        }
+      } catch {
+        // Permission refused: fall back to a plain popup
+      }
+    }
+    const display = window.open(this.route, this.channelName, features);
+    display?.focus();
+    return display;
+  }
+
+  private static getChannel(): BroadcastChannel | null {
+    if (!this.isSupported()) return null;
+    if (!this.channel) this.channel = new BroadcastChannel(this.channelName);
+    return this.channel;
+  }
+}
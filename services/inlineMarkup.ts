@@ -0,0 +1,219 @@
+import { InlineRun } from '../types.ts';
+
+type InlineStyle = 'bold' | 'rubric' | 'refrain';
+type InlineStyles = Pick<InlineRun, InlineStyle>;
+
+export interface InlineMarkupIssue {
+  offset: number; // 0-based, within the stanza
+  message: string;
+}
+
+interface OpenToken {
+  kind: 'open';
+  style: InlineStyle;
+  marker: string;
+  offset: number;
+  closed: boolean; // Settled once its stop is met; still false at the end means unclosed
+}
+
+type Token =
+  | { kind: 'text'; text: string }
+  | OpenToken
+  | { kind: 'close' } // Ends the innermost span still open when emitting
+  | { kind: 'refrain' }; // A bare {refrain}, for the rest of the enclosing span
+
+/**
+ * Inline markup inside stanzas:
+ *   **text**          bold (responses)
+ *   {r:text}          rubric, shown in red
+ *   {refrain:text}    refrain; a bare {refrain} marks the rest of the stanza
+ *   \*  \{  \}  \\    the literal character
+ * Stanzas are stored with their markup; anything that measures, splits or searches
+ * stanza text goes through here so the markers never count as text.
+ * A marker that is never closed is kept as plain text.
+ */
+export class InlineMarkup {
+  private static spanTags: { [tag: string]: InlineStyle } = { r: 'rubric', refrain: 'refrain' };
+  private static markupPattern = /\*\*|[{}\\]/;
+
+  static hasMarkup(text: string): boolean {
+    return this.markupPattern.test(text);
+  }
+
+  static parse(text: string): InlineRun[] {
+    if (!this.hasMarkup(text)) return text ? [{ text }] : [];
+    return this.emit(this.scan(text), []);
+  }
+
+  /**
+   * The text as displayed, without markers
+   */
+  static strip(text: string): string {
+    if (!this.hasMarkup(text)) return text;
+    return this.parse(text).map(run => run.text).join('');
+  }
+
+  /**
+   * Markers that will be shown literally because they are never closed
+   */
+  static findIssues(text: string): InlineMarkupIssue[] {
+    const issues: InlineMarkupIssue[] = [];
+    if (this.hasMarkup(text)) this.emit(this.scan(text), issues);
+    return issues;
+  }
+
+  static serialize(runs: InlineRun[]): string {
+    return runs.map(run => {
+      let out = run.text.replace(/[\\*{}]/g, '\\$&');
+      if (run.bold) out = `**${out}**`;
+      if (run.rubric) out = `{r:${out}}`;
+      if (run.refrain) out = `{refrain:${out}}`;
+      return out;
+    }).join('');
+  }
+
+  /**
+   * Splits a stanza into words, each carrying its own markup, so any run of words
+   * joined with spaces renders with the styling it had in the full stanza
+   */
+  static splitWords(text: string): string[] {
+    if (!this.hasMarkup(text)) return text.split(/\s+/).filter(Boolean);
+    const words: InlineRun[][] = [];
+    let word: InlineRun[] = [];
+    this.parse(text).forEach(run => {
+      run.text.split(/(\s+)/).forEach(piece => {
+        if (!piece) return;
+        if (/^\s+$/.test(piece)) {
+          if (word.length > 0) words.push(word);
+          word = [];
+        } else {
+          word.push({ ...run, text: piece });
+        }
+      });
+    });
+    if (word.length > 0) words.push(word);
+    return words.map(w => this.serialize(w));
+  }
+
+  private static sameStyles(a: InlineStyles, b: InlineStyles): boolean {
+    return !a.bold === !b.bold && !a.rubric === !b.rubric && !a.refrain === !b.refrain;
+  }
+
+  private static pushRun(runs: InlineRun[], run: InlineRun) {
+    if (!run.text) return;
+    const last = runs[runs.length - 1];
+    if (last && this.sameStyles(last, run)) {
+      last.text += run.text;
+    } else {
+      runs.push(run);
+    }
+  }
+
+  /**
+   * One pass over the stanza, pairing markers with a stack of the spans still open.
+   * A stop closes the innermost span it belongs to (`}` the innermost `{tag:`, `**` the
+   * open bold); any spans opened inside that one are unclosed and stay plain text, as
+   * are the spans still open at the end. `**` only opens bold when bold is not open.
+   */
+  private static scan(text: string): Token[] {
+    const tokens: Token[] = [];
+    const open: OpenToken[] = [];
+    const braces: number[] = []; // Indices in `open` of the {tag: spans
+    let bold = -1; // Index in `open` of the bold span
+    const spanPattern = /\{(\w+)(:|\})/y;
+    let buf = '';
+    const flush = () => {
+      if (buf) tokens.push({ kind: 'text', text: buf });
+      buf = '';
+    };
+    const push = (token: OpenToken) => {
+      flush();
+      tokens.push(token);
+      if (token.style === 'bold') bold = open.length;
+      else braces.push(open.length);
+      open.push(token);
+    };
+    // Closes the span at `idx` in `open`, dropping the spans opened inside it
+    const close = (idx: number): boolean => {
+      if (idx === -1) return false;
+      flush();
+      open[idx].closed = true;
+      open.length = idx;
+      while (braces.length > 0 && braces[braces.length - 1] >= idx) braces.pop();
+      if (bold >= idx) bold = -1;
+      tokens.push({ kind: 'close' });
+      return true;
+    };
+
+    let i = 0;
+    while (i < text.length) {
+      const ch = text[i];
+      if (ch === '\\' && i + 1 < text.length && '\\*{}'.includes(text[i + 1])) {
+        buf += text[i + 1];
+        i += 2;
+        continue;
+      }
+      if (ch === '}' && close(braces.length > 0 ? braces[braces.length - 1] : -1)) {
+        i++;
+        continue;
+      }
+      if (text.startsWith('**', i)) {
+        if (!close(bold)) push({ kind: 'open', style: 'bold', marker: '**', offset: i, closed: false });
+        i += 2;
+        continue;
+      }
+      if (ch === '{') {
+        spanPattern.lastIndex = i;
+        const span = spanPattern.exec(text);
+        const style = span ? this.spanTags[span[1]] : undefined;
+        if (span && style === 'refrain' && span[2] === '}') {
+          flush();
+          tokens.push({ kind: 'refrain' });
+          i += span[0].length;
+          continue;
+        }
+        if (span && style && span[2] === ':') {
+          push({ kind: 'open', style, marker: span[0], offset: i, closed: false });
+          i += span[0].length;
+          continue;
+        }
+      }
+      buf += ch;
+      i++;
+    }
+    flush();
+    return tokens;
+  }
+
+  /**
+   * Turns the paired tokens into runs; unclosed markers become text and are reported
+   */
+  private static emit(tokens: Token[], issues: InlineMarkupIssue[]): InlineRun[] {
+    const runs: InlineRun[] = [];
+    const styles: InlineStyles[] = [{}];
+    let buf = '';
+    const flush = () => {
+      this.pushRun(runs, { text: buf, ...styles[styles.length - 1] });
+      buf = '';
+    };
+    tokens.forEach(token => {
+      if (token.kind === 'text') {
+        buf += token.text;
+      } else if (token.kind === 'open' && !token.closed) {
+        issues.push({ offset: token.offset, message: `Unclosed "${token.marker}" is shown as plain text` });
+        buf += token.marker;
+      } else if (token.kind === 'open') {
+        flush();
+        styles.push({ ...styles[styles.length - 1], [token.style]: true });
+      } else if (token.kind === 'close') {
+        flush();
+        styles.pop();
+      } else {
+        flush();
+        styles[styles.length - 1] = { ...styles[styles.length - 1], refrain: true };
+      }
+    });
+    flush();
+    return runs;
+  }
+}
@@ -0,0 +1,181 @@
+import { Language, LectionaryService, LibraryItem, LiturgicalPart, ReadingKind } from '../types.ts';
+import { CopticCalendar } from './copticCalendar.ts';
+import { InlineMarkup } from './inlineMarkup.ts';
+import { BibleService } from './bibleService.ts';
+import { Transliterator } from './transliteration.ts';
+
+type ServiceReadings = { [key in ReadingKind]?: string };
+type LocalizedText = { [key in Language]?: string };
+
+interface LectionaryDay {
+  name: LocalizedText;
+  readings: { [key in LectionaryService]?: ServiceReadings };
+}
+
+const localized = (english: string, arabic: string): LocalizedText => ({ [Language.ENGLISH]: english, [Language.ARABIC]: arabic });
+
+/**
+ * Bundled Katameros readings. Psalms use the Septuagint numbering of the Coptic books.
+ * Fixed feasts are keyed "<coptic month>-<day>"; moveable days by their offset from Pascha,
+ * and take precedence over the fixed day they fall on; the Nativity is found by its date.
+ * The table only covers the Liturgy of the major feasts and the Sundays of Great Lent and
+ * the Holy Fifty Days so far; any other day expands to a placeholder.
+ */
+const FIXED_DAYS: { [copticDay: string]: LectionaryDay } = {
+  '1-1': { name: localized('Nayrouz', 'عيد النيروز'), readings: { liturgy: { psalm: 'Ps 64:11-12', gospel: 'Lk 4:14-30' } } },
+  '5-6': { name: localized('The Circumcision', 'عيد الختان'), readings: { liturgy: { gospel: 'Lk 2:21-39' } } },
+  '5-11': {
+    name: localized('Theophany', 'عيد الغطاس المجيد'),
+    readings: { liturgy: { pauline: 'Tit 2:11-3:7', catholic: '1 Jn 5:5-21', praxis: 'Acts 18:24-19:6', psalm: 'Ps 117:26-27', gospel: 'Jn 1:18-34' } }
+  },
+  '5-13': { name: localized('The Wedding at Cana', 'عرس قانا الجليل'), readings: { liturgy: { gospel: 'Jn 2:1-11' } } },
+  '7-29': { name: localized('The Annunciation', 'عيد البشارة'), readings: { liturgy: { gospel: 'Lk 1:26-38' } } },
+  '11-5': { name: localized('The Apostles Peter and Paul', 'عيد الرسولين بطرس وبولس'), readings: { liturgy: { gospel: 'Mt 16:13-19' } } },
+  '12-16': { name: localized('The Assumption of the Theotokos', 'عيد صعود جسد العذراء'), readings: { liturgy: { gospel: 'Lk 1:39-56' } } }
+};
+
+// On 7 January rather than a fixed Coptic day (see CopticCalendar.getNativity)
+const NATIVITY: LectionaryDay = {
+  name: localized('The Nativity', 'عيد الميلاد المجيد'),
+  readings: { liturgy: { pauline: 'Heb 1:1-12', catholic: '1 Jn 4:9-14', praxis: 'Acts 13:26-33', psalm: 'Ps 109:3', gospel: 'Mt 2:1-12' } }
+};
+
+const MOVEABLE_DAYS: { [fromPascha: number]: LectionaryDay } = {
+  [-49]: { name: localized('First Sunday of Great Lent', 'الأحد الأول من الصوم الكبير'), readings: { liturgy: { gospel: 'Mt 6:19-33' } } },
+  [-42]: { name: localized('Temptation Sunday', 'أحد التجربة'), readings: { liturgy: { gospel: 'Mt 4:1-11' } } },
+  [-35]: { name: localized('Sunday of the Prodigal Son', 'أحد الابن الضال'), readings: { liturgy: { gospel: 'Lk 15:11-32' } } },
+  [-28]: { name: localized('Sunday of the Samaritan Woman', 'أحد السامرية'), readings: { liturgy: { gospel: 'Jn 4:1-42' } } },
+  [-21]: { name: localized('Sunday of the Paralytic', 'أحد المخلع'), readings: { liturgy: { gospel: 'Jn 5:1-18' } } },
+  [-14]: { name: localized('Sunday of the Man Born Blind', 'أحد المولود أعمى'), readings: { liturgy: { gospel: 'Jn 9:1-41' } } },
+  [-7]: {
+    name: localized('Palm Sunday', 'أحد الشعانين'),
+    readings: { liturgy: { pauline: 'Heb 9:11-28', catholic: '1 Pet 4:1-11', praxis: 'Acts 28:11-31', psalm: 'Ps 117:26-27', gospel: 'Jn 12:12-19' } }
+  },
+  0: {
+    name: localized('The Feast of the Resurrection', 'عيد القيامة المجيد'),
+    readings: { liturgy: { pauline: '1 Cor 15:1-23', catholic: '1 Pet 1:3-12', praxis: 'Acts 2:22-36', psalm: 'Ps 117:24,26,27', gospel: 'Jn 20:1-18' } }
+  },
+  7: { name: localized('Thomas Sunday', 'أحد توما'), readings: { liturgy: { gospel: 'Jn 20:19-31' } } },
+  39: {
+    name: localized('The Ascension', 'عيد الصعود المجيد'),
+    readings: { liturgy: { pauline: '1 Tim 3:13-16', catholic: '1 Pet 3:15-22', praxis: 'Acts 1:1-14', psalm: 'Ps 46:5-6', gospel: 'Lk 24:36-53' } }
+  },
+  49: {
+    name: localized('Pentecost', 'عيد العنصرة'),
+    readings: { liturgy: { pauline: '1 Cor 12:1-31', catholic: '1 Jn 2:20-3:1', praxis: 'Acts 2:1-21', psalm: 'Ps 103:30-31', gospel: 'Jn 7:37-52' } }
+  }
+};
+
+// Only services the table has readings for are offered to @readings
+const SERVICE_KINDS: { [key in LectionaryService]: ReadingKind[] } = {
+  liturgy: ['pauline', 'catholic', 'praxis', 'psalm', 'gospel']
+};
+
+const SERVICE_LABELS: { [key in LectionaryService]: LocalizedText } = {
+  liturgy: localized('Liturgy', 'القداس')
+};
+
+const KIND_LABELS: { [key in ReadingKind]: LocalizedText } = {
+  pauline: localized('The Pauline Epistle', 'البولس'),
+  catholic: localized('The Catholic Epistle', 'الكاثوليكون'),
+  praxis: localized('The Acts of the Apostles', 'الإبركسيس'),
+  psalm: localized('The Psalm', 'المزمور'),
+  gospel: localized('The Gospel', 'الإنجيل')
+};
+
+export class Lectionary {
+  static services = Object.keys(SERVICE_KINDS) as LectionaryService[];
+
+  static isKnownService(name: string): name is LectionaryService {
+    return (this.services as string[]).includes(name);
+  }
+
+  /**
+   * The ID a library part needs to supply the text of a reading: "1 Jn 4:9-14" → "1jn-4-9-14"
+   */
+  static referenceKey(reference: string): string {
+    return reference.toLowerCase().replace(/(\d)\s+(?=[a-z])/g, '$1').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  }
+
+  static getDay(date: Date): LectionaryDay | null {
+    const coptic = CopticCalendar.toCoptic(date);
+    const pascha = CopticCalendar.getPascha(date.getFullYear());
+    const fromPascha = Math.round((date.getTime() - pascha.getTime()) / 86400000);
+    if (MOVEABLE_DAYS[fromPascha]) return MOVEABLE_DAYS[fromPascha];
+    const nativity = CopticCalendar.getNativity(coptic.year);
+    if (Math.round((date.getTime() - nativity.getTime()) / 86400000) === 0) return NATIVITY;
+    return FIXED_DAYS[`${coptic.month}-${coptic.day}`] || null;
+  }
+
+  /**
+   * Every part in the library by ID, for looking up reading texts
+   */
+  static indexTexts(library: LibraryItem[]): Map<string, LiturgicalPart> {
+    const byId = new Map<string, LiturgicalPart>();
+    const walk = (items: LibraryItem[]) => {
+      items.forEach(item => {
+        item.sections?.forEach(section => section.parts.forEach(part => {
+          if (!byId.has(part.id)) byId.set(part.id, part);
+        }));
+        if (item.children) walk(item.children);
+      });
+    };
+    walk(library);
+    return byId;
+  }
+
+  /**
+   * Replaces a @readings placeholder with one reading part per reading of the service on `date`.
+   * A reading's text comes from the library part anchored with its reference key, else from
+   * the loaded Bible texts. Missing texts, and days the table does not cover, become rubric
+   * placeholders saying what is missing.
+   */
+  static expand(placeholder: LiturgicalPart, date: Date, texts: Map<string, LiturgicalPart>): LiturgicalPart[] {
+    const service = placeholder.readings!;
+    const day = this.getDay(date);
+    const readings = day?.readings[service];
+    const notice = (id: string, title: LiturgicalPart['title'], message: LocalizedText): LiturgicalPart => {
+      const content: LiturgicalPart['content'] = {};
+      (Object.keys(message) as Language[]).forEach(lang => {
+        content[lang] = [InlineMarkup.serialize([{ text: message[lang]!, rubric: true }])];
+      });
+      return { id, type: 'reading', title, content };
+    };
+
+    if (!readings) {
+      const coptic = CopticCalendar.toCoptic(date);
+      const dayName = (lang: Language) => day?.name[lang] || CopticCalendar.formatCopticDate(coptic, lang);
+      const serviceName = SERVICE_LABELS[service];
+      return [notice(
+        placeholder.id,
+        localized(`Readings: ${serviceName[Language.ENGLISH]}`, `قراءات ${serviceName[Language.ARABIC]}`),
+        localized(
+          `No ${serviceName[Language.ENGLISH]} readings for ${dayName(Language.ENGLISH)} in the bundled lectionary`,
+          `لا توجد قراءات ${serviceName[Language.ARABIC]} ليوم ${dayName(Language.ARABIC)} في القطمارس المرفق`
+        )
+      )];
+    }
+
+    return SERVICE_KINDS[service].filter(kind => readings[kind]).map((kind, k) => {
+      const reference = readings[kind]!;
+      const key = this.referenceKey(reference);
+      const title = localized(`${KIND_LABELS[kind][Language.ENGLISH]} · ${reference}`, `${KIND_LABELS[kind][Language.ARABIC]} · ${reference}`);
+      const id = `${placeholder.id}.${k + 1}`;
+      const text = texts.get(key);
+      if (text) {
+        return { ...text, id, type: 'reading', title: { ...title, ...text.title } };
+      }
+      const ref = BibleService.parseReference(reference);
+      const verses = ref ? BibleService.lookup(ref) : null;
+      if (verses && Object.keys(verses.content).length > 0) {
+        const reading: LiturgicalPart = { id, type: 'reading', title, content: verses.content, rowLabels: verses.labels, scripture: reference };
+        Transliterator.fillPart(reading);
+        return reading;
+      }
+      return notice(id, title, localized(
+        `Text not in the library; add a reading part anchored #${key}`,
+        `النص غير موجود في المكتبة؛ أضف جزء قراءة بالمعرّف #${key}`
+      ));
+    });
+  }
+}
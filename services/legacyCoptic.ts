@@ -0,0 +1,143 @@
+import { Language } from '../types.ts';
+import { InlineMarkup } from './inlineMarkup.ts';
+
+export type LegacyEncoding = 'cs-avva-shenouda' | 'athanasius';
+
+interface LegacyFont {
+  label: string;
+  letters: { [ascii: string]: string }; // Lowercase keys; the uppercase key, if a letter, gives the capital
+  marks: { [ascii: string]: string }; // Typed after the letter they sit over, like Unicode combining marks
+}
+
+const JINKIM = '̀';
+const OVERLINE = '̅';
+
+/**
+ * Keyboard layouts of the pre-Unicode Coptic fonts: each ASCII key was drawn as a Coptic letter.
+ * Markup characters (* { } \) are never remapped, so stanza markup survives a conversion.
+ */
+const FONTS: { [key in LegacyEncoding]: LegacyFont } = {
+  // The CS ("Coptic Standard") fonts, of which Avva Shenouda is the most common
+  'cs-avva-shenouda': {
+    label: 'CS Avva Shenouda',
+    letters: {
+      a: 'ⲁ', b: 'ⲃ', g: 'ⲅ', d: 'ⲇ', e: 'ⲉ', z: 'ⲍ', y: 'ⲏ', ';': 'ⲑ', i: 'ⲓ', k: 'ⲕ', l: 'ⲗ', m: 'ⲙ', n: 'ⲛ',
+      x: 'ⲝ', o: 'ⲟ', p: 'ⲡ', r: 'ⲣ', c: 'ⲥ', t: 'ⲧ', u: 'ⲩ', v: 'ⲫ', ',': 'ⲭ', "'": 'ⲯ', w: 'ⲱ', s: 'ϣ',
+      f: 'ϥ', q: 'ϧ', h: 'ϩ', j: 'ϫ', '[': 'ϭ', ']': 'ϯ'
+    },
+    marks: { '`': JINKIM, '=': OVERLINE }
+  },
+  // The older Athanasius font, laid out like the Greek Symbol font
+  athanasius: {
+    label: 'Athanasius',
+    letters: {
+      a: 'ⲁ', b: 'ⲃ', g: 'ⲅ', d: 'ⲇ', e: 'ⲉ', z: 'ⲍ', h: 'ⲏ', q: 'ⲑ', i: 'ⲓ', k: 'ⲕ', l: 'ⲗ', m: 'ⲙ', n: 'ⲛ',
+      x: 'ⲝ', o: 'ⲟ', p: 'ⲡ', r: 'ⲣ', s: 'ⲥ', t: 'ⲧ', u: 'ⲩ', f: 'ⲫ', c: 'ⲭ', y: 'ⲯ', w: 'ⲱ', v: 'ϣ',
+      j: 'ϫ', '[': 'ϥ', ']': 'ϧ', '/': 'ϩ', '<': 'ϭ', '>': 'ϯ'
+    },
+    marks: { '`': JINKIM, '^': OVERLINE }
+  }
+};
+
+// Common English words; a stanza containing one is English typed in the wrong block, not a legacy font
+const ENGLISH_WORDS = /\b(the|and|of|to|in|is|that|for|with|his|our|lord|god|who|amen)\b/i;
+
+export class LegacyCoptic {
+  static encodings = Object.keys(FONTS) as LegacyEncoding[];
+
+  static label(encoding: LegacyEncoding): string {
+    return FONTS[encoding].label;
+  }
+
+  /**
+   * Guesses whether text in a [COP] block was typed in a legacy font: no Unicode Coptic at all,
+   * mostly Latin letters, and not reading as English. Returns the layout that accounts for
+   * the most characters, or null if the text does not look legacy-encoded.
+   */
+  static detect(text: string): LegacyEncoding | null {
+    const plain = InlineMarkup.strip(text);
+    if (/[Ⲁ-⳿Ϣ-ϯ]/.test(plain)) return null;
+    const visible = plain.replace(/\s+/g, '');
+    const latin = visible.replace(/[^A-Za-z]/g, '').length;
+    if (latin < 3 || latin / visible.length < 0.5 || ENGLISH_WORDS.test(plain)) return null;
+
+    let best: LegacyEncoding | null = null;
+    let bestScore = 0;
+    this.encodings.forEach(encoding => {
+      const { letters, marks } = FONTS[encoding];
+      const score = [...visible].filter(ch => letters[ch.toLowerCase()] || marks[ch]).length;
+      if (score > bestScore) {
+        best = encoding;
+        bestScore = score;
+      }
+    });
+    return best;
+  }
+
+  /**
+   * Converts one stanza, keeping its inline markup
+   */
+  static convert(text: string, encoding: LegacyEncoding): string {
+    const runs = InlineMarkup.parse(text).map(run => ({ ...run, text: this.convertPlain(run.text, encoding) }));
+    return InlineMarkup.serialize(runs);
+  }
+
+  /**
+   * Converts every [COP] stanza of a document that `detect` flags, leaving all other lines
+   * as they are. Follows the language tags the way the parser does.
+   */
+  static convertDocument(text: string): { text: string; converted: number } {
+    let lang: Language | null = null;
+    let converted = 0;
+    const lines = text.split('\n').map(line => {
+      const trimmed = line.trim();
+      if (trimmed.startsWith('#') || /^---/.test(trimmed)) {
+        lang = null;
+        return line;
+      }
+      if (!trimmed || trimmed.startsWith('@') || trimmed === '~') return line;
+      const tag = trimmed.match(/^\[([A-Za-z]{2,}(?:-[A-Za-z]{2,})*)\]\s*:?\s*/);
+      if (tag) {
+        lang = tag[1].toUpperCase();
+        if (lang.endsWith('-TITLE')) lang = null;
+        const rest = trimmed.slice(tag[0].length);
+        const result = lang === Language.COPTIC && rest ? this.convertStanza(rest) : null;
+        if (!result) return line;
+        converted++;
+        return line.slice(0, line.indexOf(trimmed)) + tag[0] + result;
+      }
+      const result = lang === Language.COPTIC ? this.convertStanza(trimmed) : null;
+      if (!result) return line;
+      converted++;
+      return line.slice(0, line.indexOf(trimmed)) + result;
+    });
+    return { text: lines.join('\n'), converted };
+  }
+
+  // A stanza line with its speaker prefix and escape kept as typed; null if it is not legacy text
+  private static convertStanza(stanza: string): string | null {
+    const prefix = stanza.match(/^(\\|[PDC]\s*:\s*)?/)![0];
+    const body = stanza.slice(prefix.length);
+    const encoding = this.detect(body);
+    return encoding ? prefix + this.convert(body, encoding) : null;
+  }
+
+  private static convertPlain(text: string, encoding: LegacyEncoding): string {
+    const { letters, marks } = FONTS[encoding];
+    let out = '';
+    for (const ch of text) {
+      const lower = ch.toLowerCase();
+      if (marks[ch]) {
+        out += marks[ch];
+      } else if (letters[ch]) {
+        out += letters[ch];
+      } else if (letters[lower]) {
+        // Capital Coptic letters sit on the even code point just before their lowercase form
+        out += String.fromCharCode(letters[lower].charCodeAt(0) - 1);
+      } else {
+        out += ch;
+      }
+    }
+    return out.normalize('NFC');
+  }
+}
@@ -0,0 +1,89 @@
+import { Transliterator } from './transliteration.ts';
+
+// Arabic letters as a Latin-typing user would spell the same sound; ج is a hard "g" in Egypt
+const ARABIC_TO_LATIN: { [letter: string]: string } = {
+  'ا': 'a', 'آ': 'a', 'أ': 'a', 'إ': 'e', 'ٱ': 'a', 'ب': 'b', 'ت': 't', 'ث': 'th', 'ج': 'g', 'چ': 'j', 'ح': 'h', 'خ': 'kh',
+  'د': 'd', 'ذ': 'z', 'ر': 'r', 'ز': 'z', 'س': 's', 'ش': 'sh', 'ص': 's', 'ض': 'd', 'ط': 't', 'ظ': 'z', 'ع': '', 'غ': 'gh',
+  'ف': 'f', 'ڤ': 'v', 'ق': 'k', 'ك': 'k', 'ل': 'l', 'م': 'm', 'ن': 'n', 'ه': 'h', 'ة': 'a', 'و': 'ou', 'ؤ': 'ou', 'ي': 'i',
+  'ى': 'i', 'ئ': 'i', 'ء': ''
+};
+
+// Spellings of one sound, longest first, and the single letter they fold to
+const LATIN_DIGRAPHS: [string, string][] = [
+  ['tsh', 'S'], ['ch', 'S'], ['sh', 'S'], ['ph', 'p'], ['th', 't'], ['kh', 'k'], ['gh', 'g'], ['ou', 'u'], ['ee', 'i'], ['x', 'ks']
+];
+
+/**
+ * Sound classes the three scripts cannot tell apart. Arabic has no "p" or "v" and writes
+ * ⲃ, ⲡ, ⲫ alike, so the labials share one class; vowels fold to a, i and u.
+ */
+const LATIN_CLASSES: { [letter: string]: string } = {
+  b: 'p', f: 'p', v: 'p', p: 'p', c: 'k', q: 'k', k: 'k', j: 'g', g: 'g', y: 'i', e: 'i', i: 'i', w: 'u', o: 'u', u: 'u'
+};
+
+const VOWEL_CLASSES = 'aiu';
+
+/**
+ * Phonetic keys for finding Coptic words from a Latin or Arabic spelling of how they sound:
+ * "tenouosht", "تين أوؤشت" and "ⲧⲉⲛⲟⲩⲱϣⲧ" all come out as the same keys. Word-initial
+ * vowels are dropped, since a jinkim or hamza seat there is spelled so inconsistently.
+ */
+export class Phonetic {
+  static isCopticWord(word: string): boolean {
+    return /[Ⲁ-⳿Ϣ-ϯ]/.test(word);
+  }
+
+  static isArabicWord(word: string): boolean {
+    return /[؀-ۿ]/.test(word);
+  }
+
+  static key(word: string): string {
+    if (this.isCopticWord(word)) return this.fromLatin(Transliterator.copticToEnglish(word));
+    if (this.isArabicWord(word)) return this.fromArabic(word);
+    return this.fromLatin(word);
+  }
+
+  static fromArabic(word: string): string {
+    const latin = [...word.replace(/[ً-ٰٟـ]/g, '')].map(ch => ARABIC_TO_LATIN[ch] ?? ch).join('');
+    return this.fromLatin(latin);
+  }
+
+  static fromLatin(word: string): string {
+    let text = word.toLowerCase().normalize('NFD').replace(/[^a-z]/g, '');
+    LATIN_DIGRAPHS.forEach(([spelling, sound]) => {
+      text = text.split(spelling).join(sound);
+    });
+    let key = '';
+    for (const ch of text) {
+      const sound = LATIN_CLASSES[ch] || ch;
+      if (sound !== key[key.length - 1]) key += sound;
+    }
+    return key.replace(new RegExp(`^[${VOWEL_CLASSES}]+`), '');
+  }
+
+  /**
+   * Levenshtein distance, or `max + 1` as soon as it is certain to exceed `max`
+   */
+  static distance(a: string, b: string, max: number): number {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      let rowMin = i;
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        rowMin = Math.min(rowMin, current[j]);
+      }
+      if (rowMin > max) return max + 1;
+      previous = current;
+    }
+    return previous[b.length];
+  }
+
+  /**
+   * Edits tolerated between keys of this length; short keys must match exactly
+   */
+  static tolerance(key: string): number {
+    return key.length >= 7 ? 2 : key.length >= 4 ? 1 : 0;
+  }
+}
@@ -0,0 +1,144 @@
+import { ComputedSlide, Language } from '../types.ts';
+import { PRIMARY_LANGUAGES, SECONDARY_LANGUAGES, getLanguageDef } from '../constants.tsx';
+import { InlineMarkup } from './inlineMarkup.ts';
+
+export type RemoteRole = 'operator' | 'remote';
+
+export type RemoteStatus = 'connecting' | 'connected' | 'closed';
+
+// A slide as plain text, small enough to send to a phone on every change
+export interface RemoteSlide {
+  type: 'title' | 'content';
+  sectionId: string;
+  sectionTitle: string;
+  title?: string; // The part title on a part's first sub-slide
+  lines: { language: Language; text: string; direction: 'ltr' | 'rtl' }[];
+  slideIndex: number;
+  totalSlidesInSection: number;
+}
+
+export type RemoteCommand =
+  | { action: 'next' }
+  | { action: 'previous' }
+  | { action: 'section'; sectionId: string }
+  | { action: 'blackout'; on: boolean };
+
+export type RemoteMessage =
+  | {
+      type: 'state';
+      bookTitle: string;
+      sections: { id: string; title: string }[];
+      current: RemoteSlide | null;
+      next: RemoteSlide | null;
+      blackout: boolean;
+    }
+  | { type: 'command'; command: RemoteCommand }
+  | { type: 'peers'; remotes: number } // From the relay to the operator, whenever a remote joins or leaves
+  | { type: 'paired'; code: string }; // From the relay to the operator, once connected: the code phones enter
+
+export interface RemoteConnection {
+  send: (message: RemoteMessage) => void;
+  close: () => void;
+}
+
+interface RemoteHandlers {
+  onMessage: (message: RemoteMessage) => void;
+  onStatus: (status: RemoteStatus, reason?: string) => void;
+}
+
+/**
+ * Talks to the relay of scripts/remote-relay.js, which pairs the operator window with
+ * phone remotes by a six-digit code. Dropped connections (a phone going to sleep) are
+ * retried; refusals by the relay are final and reported with the relay's reason.
+ */
+export class RemoteControl {
+  static readonly route = '/remote';
+  static readonly defaultPort = 8787;
+
+  private static relayAddressKey = 'coptic_reader_remote_relay';
+  private static retryDelayMs = 2000;
+
+  /**
+   * host:port of the relay: the last one used, else the machine serving this page
+   */
+  static getRelayAddress(): string {
+    return localStorage.getItem(this.relayAddressKey) || `${window.location.hostname}:${this.defaultPort}`;
+  }
+
+  static setRelayAddress(address: string) {
+    localStorage.setItem(this.relayAddressKey, address);
+  }
+
+  /**
+   * `code` is the one a phone entered; the operator connects without one and is sent its code
+   */
+  static connect(address: string, code: string | null, role: RemoteRole, handlers: RemoteHandlers): RemoteConnection {
+    let socket: WebSocket | null = null;
+    let closed = false;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const open = () => {
+      handlers.onStatus('connecting');
+      socket = new WebSocket(`${this.relayUrl(address)}/?role=${role}${code ? `&code=${encodeURIComponent(code)}` : ''}`);
+      socket.onopen = () => handlers.onStatus('connected');
+      socket.onmessage = (e) => {
+        try {
+          handlers.onMessage(JSON.parse(e.data));
+        } catch {
+          // Not a message of ours
+        }
+      };
+      socket.onclose = (e) => {
+        if (closed) return;
+        // 4000-4999: the relay refused the pairing, so trying again cannot help
+        if (e.code >= 4000 && e.code < 5000) {
+          closed = true;
+          handlers.onStatus('closed', e.reason);
+          return;
+        }
+        handlers.onStatus('connecting');
+        retryTimer = setTimeout(open, this.retryDelayMs);
+      };
+    };
+    open();
+
+    return {
+      send: (message) => {
+        if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+      },
+      close: () => {
+        closed = true;
+        clearTimeout(retryTimer);
+        socket?.close();
+        handlers.onStatus('closed');
+      }
+    };
+  }
+
+  /**
+   * The text of a slide in the languages shown, one line per language
+   */
+  static toRemoteSlide(slide: ComputedSlide, languages: Language[]): RemoteSlide {
+    const shown = [...PRIMARY_LANGUAGES, ...SECONDARY_LANGUAGES].filter(l => languages.includes(l));
+    return {
+      type: slide.type,
+      sectionId: slide.sectionId,
+      sectionTitle: slide.sectionTitle,
+      title: slide.partTitle ? shown.map(l => slide.partTitle![l]).find(Boolean) : undefined,
+      lines: shown
+        .filter(l => slide.content?.[l]?.some(Boolean))
+        .map(l => ({
+          language: l,
+          text: slide.content![l]!.filter(Boolean).map(text => InlineMarkup.strip(text)).join(' · '),
+          direction: getLanguageDef(l).direction
+        })),
+      slideIndex: slide.slideIndex,
+      totalSlidesInSection: slide.totalSlidesInSection
+    };
+  }
+
+  private static relayUrl(address: string): string {
+    if (/^wss?:\/\//.test(address)) return address.replace(/\/+$/, '');
+    return `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${address}`;
+  }
+}
@@ -0,0 +1,99 @@
+export interface TextRange {
+  start: number; // Offsets into the original, unnormalized text
+  end: number;
+}
+
+export interface NormalizedText {
+  text: string;
+  starts: number[]; // Per character of `text`: where its source character begins in the original
+  ends: number[]; // And where it ends, including any marks folded away after it
+}
+
+// Greek letters typed in place of their Coptic look-alikes
+const GREEK_TO_COPTIC: { [greek: string]: string } = {
+  'α': 'ⲁ', 'β': 'ⲃ', 'γ': 'ⲅ', 'δ': 'ⲇ', 'ε': 'ⲉ', 'ζ': 'ⲍ', 'η': 'ⲏ', 'θ': 'ⲑ', 'ι': 'ⲓ', 'κ': 'ⲕ', 'λ': 'ⲗ', 'μ': 'ⲙ',
+  'ν': 'ⲛ', 'ξ': 'ⲝ', 'ο': 'ⲟ', 'π': 'ⲡ', 'ρ': 'ⲣ', 'σ': 'ⲥ', 'ς': 'ⲥ', 'τ': 'ⲧ', 'υ': 'ⲩ', 'φ': 'ⲫ', 'χ': 'ⲭ', 'ψ': 'ⲯ', 'ω': 'ⲱ'
+};
+
+// Alef with hamza or madda, taa marbuta and alef maqsura, folded to the letter people type
+const ARABIC_LETTERS: { [letter: string]: string } = { 'ٱ': 'ا', 'ة': 'ه', 'ى': 'ي' };
+
+/**
+ * Folds text for searching so that spellings a reader would consider the same compare equal:
+ *   - case, and accents on Latin letters
+ *   - Arabic tashkeel, tatweel, hamza carriers, taa marbuta and alef maqsura
+ *   - Coptic jinkim, overlines and other combining marks, and Greek letters standing in for Coptic
+ *   - runs of whitespace
+ * The index and the query must both go through `normalize`. Every folded character keeps
+ * the span of the original text it came from, so matches can be highlighted in place.
+ */
+export class ScriptNormalizer {
+  /**
+   * A Coptic (or look-alike Greek) letter in lowercase Coptic; anything else unchanged
+   */
+  static foldCopticLetter(ch: string): string {
+    const code = ch.charCodeAt(0);
+    // Coptic pairs uppercase on the even code point, lowercase on the odd one
+    if ((code >= 0x2C80 && code <= 0x2CE3 && code % 2 === 0) || (code >= 0x03E2 && code <= 0x03EF && code % 2 === 0)) {
+      return String.fromCharCode(code + 1);
+    }
+    const lower = ch.toLowerCase();
+    return GREEK_TO_COPTIC[lower] || lower;
+  }
+
+  static isCombiningMark(ch: string): boolean {
+    const code = ch.charCodeAt(0);
+    return (code >= 0x0300 && code <= 0x036F) // Combining diacritics: jinkim, overline, Latin accents
+      || (code >= 0xFE20 && code <= 0xFE2F) // Combining half marks: overlines spanning letters
+      || (code >= 0x2CEF && code <= 0x2CF1) // Coptic combining marks
+      || (code >= 0x064B && code <= 0x065F) || code === 0x0670 // Arabic tashkeel, hamza above/below, madda
+      || code === 0x0640; // Tatweel
+  }
+
+  static normalize(text: string): NormalizedText {
+    let out = '';
+    const starts: number[] = [];
+    const ends: number[] = [];
+    let i = 0;
+    for (const ch of text) {
+      const end = i + ch.length;
+      let emitted = false;
+      for (const piece of ch.normalize('NFD')) {
+        if (this.isCombiningMark(piece)) continue;
+        let folded = /\s/.test(piece) ? ' ' : ARABIC_LETTERS[piece] || this.foldCopticLetter(piece);
+        // Collapse runs of whitespace, and drop it at the start
+        if (folded === ' ' && (out.length === 0 || out.endsWith(' '))) folded = '';
+        for (const unit of folded) {
+          out += unit;
+          starts.push(i);
+          ends.push(end);
+          emitted = true;
+        }
+      }
+      // Marks folded away belong to the letter they sit on
+      if (!emitted && ends.length > 0 && !/\s/.test(ch)) ends[ends.length - 1] = end;
+      i = end;
+    }
+    return { text: out, starts, ends };
+  }
+
+  static normalizeQuery(query: string): string {
+    return this.normalize(query).text.trim();
+  }
+
+  /**
+   * Every occurrence of the (already normalized) query, as ranges of the original text
+   */
+  static findMatches(source: NormalizedText, query: string): TextRange[] {
+    const ranges: TextRange[] = [];
+    if (!query) return ranges;
+    let from = 0;
+    for (;;) {
+      const at = source.text.indexOf(query, from);
+      if (at < 0) break;
+      ranges.push({ start: source.starts[at], end: source.ends[at + query.length - 1] });
+      from = at + query.length;
+    }
+    return ranges;
+  }
+}
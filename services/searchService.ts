@@ -0,0 +1,400 @@
+import { Language, LibraryItem, LiturgicalPart, ScriptureReference } from '../types.ts';
+import { InlineMarkup } from './inlineMarkup.ts';
+import { BibleService } from './bibleService.ts';
+import { NormalizedText, ScriptNormalizer, TextRange } from './scriptNormalizer.ts';
+import { Phonetic } from './phonetic.ts';
+
+export interface SearchResult {
+  bookId: string;
+  sectionId: string;
+  partIndex: number;
+  bookTitle: string;
+  sectionTitle: string;
+  textSnippet: string;
+  language: Language;
+  isIncluded: boolean; // The hit sits in a part embedded via @include
+  isTitle: boolean; // The hit is in a part title rather than a stanza
+  citation?: string; // Set when the part cites the scripture reference searched for
+  matches?: TextRange[]; // Where the query matched in textSnippet
+}
+
+export interface SearchPage {
+  results: SearchResult[];
+  total: number;
+  page: number; // 0-based
+  pageCount: number;
+}
+
+interface Token {
+  term: string;
+  start: number; // Offsets into the normalized text
+  end: number;
+}
+
+// One searchable text: a stanza or a part title
+interface IndexedText {
+  result: SearchResult;
+  partType: LiturgicalPart['type'];
+  scripture: ScriptureReference | null;
+  citation?: string; // The part's @scripture reference as written
+  normalized: NormalizedText;
+  tokens: Token[];
+  phonetic?: string[]; // Coptic texts only: the sound key of each token
+}
+
+export interface SearchIndex {
+  texts: IndexedText[]; // In document order
+  postings: Map<string, number[]>; // Term → indexes into texts, ascending
+  terms: string[]; // Every term, sorted, for prefix lookups
+  phonetic: Map<string, number[]>; // Sound key → Coptic texts containing a word with that key
+  phoneticKeys: string[]; // Sorted, like terms
+}
+
+// How far a Coptic text is from a Latin or Arabic query: 0 for the same sound keys
+type PhoneticCosts = Map<number, number>;
+
+interface ParsedQuery {
+  words: string[]; // Matched as prefixes, so results appear while the last word is still being typed
+  phrases: string[][]; // Quoted: the words in order, next to each other
+  languages: string[];
+  books: string[];
+  types: string[];
+  plain: string; // The query without filters, for reading it as a scripture citation
+}
+
+const PAGE_SIZE = 20;
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Full-text search over the library: an inverted index of every stanza and part title,
+ * folded with ScriptNormalizer. Queries are words (all required), "quoted phrases" and the
+ * filters lang:AR, book:<title or id> and type:hymn. Part titles rank above stanzas, then
+ * texts where the words sit closest together. Coptic stanzas are also found by how they
+ * sound (see Phonetic), ranked below direct matches.
+ */
+export class SearchService {
+  static pageSize = PAGE_SIZE;
+
+  static buildIndex(library: LibraryItem[]): SearchIndex {
+    const texts: IndexedText[] = [];
+    // Transliterating is the slow part, and Coptic words repeat a lot
+    const soundKeys = new Map<string, string>();
+    const soundKey = (term: string) => {
+      if (!soundKeys.has(term)) soundKeys.set(term, Phonetic.key(term));
+      return soundKeys.get(term)!;
+    };
+    const add = (result: SearchResult, part: LiturgicalPart) => {
+      const normalized = ScriptNormalizer.normalize(result.textSnippet);
+      const tokens = [...normalized.text.matchAll(TOKEN_PATTERN)].map(m => ({ term: m[0], start: m.index!, end: m.index! + m[0].length }));
+      if (tokens.length === 0) return;
+      texts.push({
+        result,
+        partType: part.type,
+        scripture: part.scripture ? BibleService.parseReference(part.scripture) : null,
+        citation: part.scripture,
+        normalized,
+        tokens,
+        ...(result.language === Language.COPTIC ? { phonetic: tokens.map(t => soundKey(t.term)) } : {})
+      });
+    };
+
+    const walk = (items: LibraryItem[]) => {
+      items.forEach(item => {
+        item.sections?.forEach(section => section.parts.forEach((part, partIndex) => {
+          const base = {
+            bookId: item.id,
+            sectionId: section.id,
+            partIndex,
+            bookTitle: item.title,
+            sectionTitle: section.title,
+            isIncluded: Boolean(part.includedFrom)
+          };
+          (Object.keys(part.title || {}) as Language[]).forEach(lang => {
+            add({ ...base, language: lang, textSnippet: part.title![lang]!, isTitle: true }, part);
+          });
+          (Object.keys(part.content) as Language[]).forEach(lang => {
+            part.content[lang]!.forEach(stanza => {
+              add({ ...base, language: lang, textSnippet: InlineMarkup.strip(stanza), isTitle: false }, part);
+            });
+          });
+        }));
+        if (item.children) walk(item.children);
+      });
+    };
+    walk(library);
+
+    const postings = new Map<string, number[]>();
+    texts.forEach((text, i) => {
+      text.tokens.forEach(({ term }) => {
+        const list = postings.get(term);
+        if (!list) postings.set(term, [i]);
+        else if (list[list.length - 1] !== i) list.push(i);
+      });
+    });
+    const phonetic = new Map<string, number[]>();
+    texts.forEach((text, i) => {
+      text.phonetic?.forEach(key => {
+        if (!key) return;
+        const list = phonetic.get(key);
+        if (!list) phonetic.set(key, [i]);
+        else if (list[list.length - 1] !== i) list.push(i);
+      });
+    });
+    return { texts, postings, terms: [...postings.keys()].sort(), phonetic, phoneticKeys: [...phonetic.keys()].sort() };
+  }
+
+  /**
+   * One page of results, best first. A query that reads as a scripture citation ("John 3:16")
+   * also finds every part citing those verses, listed before the text matches.
+   * Ties go to the book the user has open, then to document order.
+   */
+  static search(index: SearchIndex, query: string, page: number = 0, preferBookId: string = ''): SearchPage {
+    const parsed = this.parseQuery(query);
+    const words = [...parsed.words, ...parsed.phrases.flat()];
+    const cited = parsed.plain ? BibleService.parseReference(parsed.plain) : null;
+    if (words.length === 0 && !cited) return { results: [], total: 0, page: 0, pageCount: 0 };
+
+    const scored: { text: IndexedText; score: number; order: number; matches: TextRange[]; citation: boolean }[] = [];
+    const passesFilters = (text: IndexedText) => {
+      const r = text.result;
+      if (parsed.languages.length > 0 && !parsed.languages.includes(r.language.toUpperCase())) return false;
+      if (parsed.types.length > 0 && !parsed.types.includes(text.partType)) return false;
+      if (parsed.books.length > 0) {
+        const title = ScriptNormalizer.normalizeQuery(r.bookTitle);
+        if (!parsed.books.some(b => r.bookId === b || title.includes(b))) return false;
+      }
+      return true;
+    };
+
+    // Citations: the first text of each part whose reference overlaps
+    if (cited) {
+      const seen = new Set<string>();
+      index.texts.forEach((text, order) => {
+        const key = `${text.result.bookId}/${text.result.sectionId}/${text.result.partIndex}`;
+        if (!text.scripture || seen.has(key) || !BibleService.overlaps(cited, text.scripture) || !passesFilters(text)) return;
+        seen.add(key);
+        scored.push({ text, score: 0, order, matches: [], citation: true });
+      });
+    }
+
+    if (words.length > 0) {
+      let candidates = this.lookupPrefix(index, words[0]);
+      for (const word of words.slice(1)) candidates = this.intersect(candidates, this.lookupPrefix(index, word));
+      candidates.forEach(order => {
+        const text = index.texts[order];
+        if (!passesFilters(text)) return;
+        const hit = this.scoreText(text, parsed);
+        if (hit) scored.push({ text, order, citation: false, ...hit });
+      });
+    }
+
+    // A query typed in Latin or Arabic letters also finds Coptic stanzas that sound like it
+    if (words.length > 0 && !words.some(w => Phonetic.isCopticWord(w))) {
+      const found = new Set(scored.map(s => s.order));
+      this.searchPhonetic(index, words).forEach((cost, order) => {
+        const text = index.texts[order];
+        if (found.has(order) || !passesFilters(text)) return;
+        scored.push({ text, order, citation: false, score: Math.max(1, 8 - 2 * cost), matches: this.phoneticMatches(text, words) });
+      });
+    }
+
+    const preferred = (s: { text: IndexedText }) => (s.text.result.bookId === preferBookId ? 0 : 1);
+    scored.sort((a, b) =>
+      Number(b.citation) - Number(a.citation) || b.score - a.score || preferred(a) - preferred(b) || a.order - b.order
+    );
+
+    const pageCount = Math.ceil(scored.length / PAGE_SIZE);
+    const current = Math.max(0, Math.min(page, pageCount - 1));
+    const results = scored.slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE).map(s => ({
+      ...s.text.result,
+      ...(s.citation ? { citation: s.text.citation } : {}),
+      matches: s.matches
+    }));
+    return { results, total: scored.length, page: current, pageCount };
+  }
+
+  private static parseQuery(query: string): ParsedQuery {
+    const parsed: ParsedQuery = { words: [], phrases: [], languages: [], books: [], types: [], plain: '' };
+    const plain: string[] = [];
+    const pattern = /(\w+):(?:"([^"]*)"?|(\S+))|"([^"]*)"?|(\S+)/g;
+    for (const m of query.matchAll(pattern)) {
+      const [, filter, quotedValue, value, phrase, word] = m;
+      const filterValue = quotedValue ?? value;
+      const key = filter?.toLowerCase();
+      if (key === 'lang' || key === 'language') {
+        parsed.languages.push(filterValue.toUpperCase());
+      } else if (key === 'book') {
+        const book = ScriptNormalizer.normalizeQuery(filterValue);
+        if (book) parsed.books.push(book);
+      } else if (key === 'type') {
+        parsed.types.push(filterValue.toLowerCase());
+      } else {
+        // Anything else, including an unknown "x:y" such as "3:16", is searched for as text
+        const text = phrase ?? word ?? m[0];
+        plain.push(text);
+        const terms = this.tokenize(text);
+        if (phrase !== undefined && terms.length > 1) parsed.phrases.push(terms);
+        else parsed.words.push(...terms);
+      }
+    }
+    parsed.plain = plain.join(' ');
+    return parsed;
+  }
+
+  private static tokenize(text: string): string[] {
+    return ScriptNormalizer.normalizeQuery(text).match(TOKEN_PATTERN) || [];
+  }
+
+  // Texts containing a term that starts with `prefix`
+  private static lookupPrefix(index: SearchIndex, prefix: string): number[] {
+    let lo = 0;
+    let hi = index.terms.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (index.terms[mid] < prefix) lo = mid + 1;
+      else hi = mid;
+    }
+    const docs = new Set<number>();
+    for (let i = lo; i < index.terms.length && index.terms[i].startsWith(prefix); i++) {
+      index.postings.get(index.terms[i])!.forEach(d => docs.add(d));
+    }
+    return [...docs].sort((a, b) => a - b);
+  }
+
+  /**
+   * Coptic texts matching every query word by sound, or the words run together as one
+   * Coptic word ("tin ouosht" for ⲧⲉⲛⲟⲩⲱϣⲧ), with the total cost of the near misses
+   */
+  private static searchPhonetic(index: SearchIndex, words: string[]): PhoneticCosts {
+    const keys = words.map(w => Phonetic.key(w));
+    let costs: PhoneticCosts | null = null;
+    keys.forEach((key, i) => {
+      const found = this.lookupPhonetic(index, key, i === keys.length - 1);
+      if (!costs) {
+        costs = found;
+        return;
+      }
+      const both: PhoneticCosts = new Map();
+      costs.forEach((cost, order) => {
+        if (found.has(order)) both.set(order, cost + found.get(order)!);
+      });
+      costs = both;
+    });
+    const result: PhoneticCosts = costs || new Map();
+    if (words.length > 1) {
+      this.lookupPhonetic(index, Phonetic.key(words.join('')), true).forEach((cost, order) => {
+        if (!result.has(order) || result.get(order)! > cost) result.set(order, cost);
+      });
+    }
+    return result;
+  }
+
+  // Texts with a word whose key equals `key`, starts with it (costing a little), or is within the edit tolerance
+  private static lookupPhonetic(index: SearchIndex, key: string, allowPrefix: boolean): PhoneticCosts {
+    const costs: PhoneticCosts = new Map();
+    if (!key) return costs;
+    const tolerance = Phonetic.tolerance(key);
+    const note = (k: string, cost: number) => {
+      index.phonetic.get(k)!.forEach(order => {
+        if (!costs.has(order) || costs.get(order)! > cost) costs.set(order, cost);
+      });
+    };
+    index.phoneticKeys.forEach(k => {
+      if (k === key) note(k, 0);
+      else if (allowPrefix && key.length >= 3 && k.startsWith(key)) note(k, 0.5);
+      else if (tolerance > 0) {
+        const d = Phonetic.distance(key, k, tolerance);
+        if (d <= tolerance) note(k, d);
+      }
+    });
+    return costs;
+  }
+
+  // The Coptic words that sound like any of the query words, or like all of them together
+  private static phoneticMatches(text: IndexedText, words: string[]): TextRange[] {
+    const keys = words.map(w => Phonetic.key(w));
+    if (words.length > 1) keys.push(Phonetic.key(words.join('')));
+    const sounds = (k: string) => keys.some(key =>
+      key && (k === key || (key.length >= 3 && k.startsWith(key)) || Phonetic.distance(key, k, Phonetic.tolerance(key)) <= Phonetic.tolerance(key))
+    );
+    return text.tokens
+      .filter((_, i) => sounds(text.phonetic![i]))
+      .map(t => ({ start: text.normalized.starts[t.start], end: text.normalized.ends[t.end - 1] }));
+  }
+
+  private static intersect(a: number[], b: number[]): number[] {
+    const out: number[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        out.push(a[i]);
+        i++;
+        j++;
+      } else if (a[i] < b[j]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Checks phrases and scores a candidate; null if a phrase does not occur in order
+   */
+  private static scoreText(text: IndexedText, parsed: ParsedQuery): { score: number; matches: TextRange[] } | null {
+    const { tokens, normalized } = text;
+    const positionsOf = (word: string) => tokens.flatMap((t, i) => (t.term.startsWith(word) ? [i] : []));
+    const spans: { first: number; last: number }[] = [];
+    const groups: number[][] = [];
+
+    for (const phrase of parsed.phrases) {
+      const starts = positionsOf(phrase[0]).filter(p =>
+        phrase.every((word, k) => tokens[p + k] && (k === phrase.length - 1 ? tokens[p + k].term.startsWith(word) : tokens[p + k].term === word))
+      );
+      if (starts.length === 0) return null;
+      starts.forEach(p => spans.push({ first: p, last: p + phrase.length - 1 }));
+      groups.push(starts);
+    }
+    parsed.words.forEach(word => {
+      const positions = positionsOf(word);
+      positions.forEach(p => spans.push({ first: p, last: p }));
+      groups.push(positions);
+    });
+
+    // The narrowest stretch of tokens holding one occurrence of every word and phrase
+    let window = tokens.length;
+    if (groups.length > 1) {
+      const events = groups.flatMap((positions, g) => positions.map(p => ({ p, g }))).sort((a, b) => a.p - b.p);
+      const counts = new Array(groups.length).fill(0);
+      let covered = 0;
+      let lo = 0;
+      events.forEach(({ p, g }) => {
+        if (counts[g]++ === 0) covered++;
+        while (covered === groups.length) {
+          window = Math.min(window, p - events[lo].p);
+          if (--counts[events[lo].g] === 0) covered--;
+          lo++;
+        }
+      });
+    } else {
+      window = 0;
+    }
+
+    const score = (text.result.isTitle ? 100 : 0)
+      + parsed.phrases.length * 20
+      + 10 / (1 + Math.max(0, window - (groups.length - 1)))
+      + Math.min(spans.length, 5);
+
+    // Highlight each token once, even where a phrase and a word overlap
+    const matches: TextRange[] = [];
+    let highlighted = -1;
+    spans.sort((a, b) => a.first - b.first).forEach(s => {
+      if (s.first <= highlighted) return;
+      matches.push({ start: normalized.starts[tokens[s.first].start], end: normalized.ends[tokens[s.last].end - 1] });
+      highlighted = s.last;
+    });
+    return { score, matches };
+  }
+}
@@ -0,0 +1,478 @@
+import { AppSettings, ComputedSlide, Language, LibraryItem, LiturgicalPart, SlideBand, SpeakerRole } from '../types.ts';
+import { PRIMARY_LANGUAGES, SECONDARY_LANGUAGES, getLanguageDef } from '../constants.tsx';
+import { InlineMarkup } from './inlineMarkup.ts';
+import { CopticCalendar } from './copticCalendar.ts';
+import { ContentService } from './contentService.ts';
+import { Lectionary } from './lectionary.ts';
+import { TextLayout } from './textLayout.ts';
+
+type SlideContent = { [key in Language]?: string[] };
+type SlideFlags = { [key in Language]?: boolean[] };
+type ColumnWeights = NonNullable<ComputedSlide['columnWeights']>;
+
+interface ColumnBox {
+  lang: Language;
+  width: number; // px left for the text
+}
+
+/**
+ * Room for the text of a slide, which follows the md breakpoint of the Reader's render:
+ * pt-4/md:pt-6, px-3/md:px-6 and pb-28, which clears the Size & View cards. A band has
+ * p-6/md:p-10 around a px-6 panel and is as tall as its lines.
+ */
+export interface SlideFrame {
+  contentWidth: number;
+  columnPadding: number; // px-3/md:px-5 on each side of a divider between columns
+  availableHeight: number;
+  rowGap: number; // space-y-6/md:space-y-8 between rows
+}
+
+interface SubSlideRows {
+  firstRow: number;
+  content: SlideContent;
+  roles: (SpeakerRole | null)[]; // One entry per row of the sub-slide
+  labels: (string | null)[]; // Likewise, e.g. verse numbers
+  generated: SlideFlags;
+}
+
+// Line heights of the Reader's render: leading-[1.35], leading-snug, and the 1.5 inherited elsewhere
+const PRIMARY_LINE_HEIGHT = 1.35;
+const SECONDARY_LINE_HEIGHT = 1.375;
+const BODY_LINE_HEIGHT = 1.5;
+
+// Smallest size a whole part is shrunk to before it is paginated after all
+const MIN_FIT_FONT_SIZE = 12;
+
+// Same as --theme-font-heading
+const CINZEL_STACK = "'Cinzel', serif";
+const INTER_STACK = "'Inter', sans-serif";
+
+/**
+ * DYNAMIC OVERFLOW PAGINATION ENGINE:
+ * Generates slides where text fills the full viewing area down to right above
+ * the "Size" (bottom-left) and "View/Slide" (bottom-right) cards before carrying over.
+ * Rows are measured in their fonts at the widths they render at, so the fill is exact.
+ */
+export class SlidePagination {
+  static frame(viewport: { width: number; height: number }, isMd: boolean, band: SlideBand | null, fontSize: number): SlideFrame {
+    return {
+      contentWidth: band
+        ? viewport.width - 2 * (isMd ? 40 : 24) - 48
+        : viewport.width - 2 * (isMd ? 24 : 12),
+      columnPadding: isMd ? 20 : 12,
+      availableHeight: band
+        ? Math.max(1, band.maxLines) * fontSize * PRIMARY_LINE_HEIGHT
+        : Math.max(160, viewport.height - (isMd ? 24 : 16) - 112),
+      rowGap: isMd ? 32 : 24
+    };
+  }
+
+  static getScaledFontSize(lang: Language, baseSize: number): number {
+    return baseSize * getLanguageDef(lang).fontScale;
+  }
+
+  // Headings keep the display face for Latin scripts and the script's own face otherwise
+  static getHeadingFontClass(lang: Language): string {
+    const { fontClass } = getLanguageDef(lang);
+    return fontClass === 'font-times' || fontClass === 'font-inter' ? 'font-cinzel' : fontClass;
+  }
+
+  static getRoleLabelFontSize(baseSize: number): number {
+    return Math.max(10, baseSize * 0.55);
+  }
+
+  /**
+   * The slides of every section of `book`, with parts as shown on the settings' liturgical date.
+   * Part titles are left out of a band, which keeps its lines for the text.
+   */
+  static paginate(
+    book: LibraryItem,
+    settings: AppSettings,
+    frame: SlideFrame,
+    readingTexts: Map<string, LiturgicalPart>,
+    band: SlideBand | null = null
+  ): ComputedSlide[] {
+    if (!book.sections) return [];
+    const computed: ComputedSlide[] = [];
+    const { availableHeight, rowGap } = frame;
+    // Seasonal variants (@if blocks) and @readings follow the date picked in the header, or today
+    const date = CopticCalendar.parseIsoDate(settings.liturgicalDate) || new Date();
+    const seasons = CopticCalendar.getSeasons(date);
+
+    book.sections.forEach(section => {
+      const sectionSlides: ComputedSlide[] = [];
+
+      // Section Title Slide
+      const titleSlide: ComputedSlide = {
+        id: `title-${section.id}`,
+        type: 'title',
+        sectionTitle: section.title,
+        sectionId: section.id,
+        partIndex: -1,
+        subSlideIndex: 0,
+        totalSubSlides: 1,
+        firstRow: 0,
+        slideIndex: 0,
+        totalSlidesInSection: 0,
+      };
+      sectionSlides.push(titleSlide);
+
+      // Section Content Parts
+      // Parts as shown on the date; expanded readings share their placeholder's part index
+      const shownParts: { part: LiturgicalPart; partIdx: number; key: string }[] = [];
+      section.parts.forEach((sourcePart, partIdx) => {
+        const resolved = ContentService.resolvePartForSeasons(sourcePart, seasons);
+        if (!resolved) return;
+        const expanded = resolved.readings ? Lectionary.expand(resolved, date, readingTexts) : [resolved];
+        expanded.forEach((p, k) => {
+          const part = p === resolved ? p : ContentService.resolvePartForSeasons(p, seasons);
+          if (part) shownParts.push({ part, partIdx, key: k === 0 ? `${partIdx}` : `${partIdx}.${k}` });
+        });
+      });
+
+      shownParts.forEach(({ part, partIdx, key }) => {
+        const titleH = band ? 0 : this.measurePartTitleHeight(part.title, settings, frame.contentWidth);
+        const totalRows = (Object.values(part.content) as (string[] | undefined)[]).reduce(
+          (max: number, arr) => Math.max(max, arr?.length || 0),
+          0
+        );
+
+        if (totalRows === 0) {
+          sectionSlides.push({
+            id: `content-${section.id}-${key}-0`,
+            type: 'content',
+            sectionTitle: section.title,
+            sectionId: section.id,
+            partIndex: partIdx,
+            partKey: key,
+            subSlideIndex: 0,
+            totalSubSlides: 1,
+            firstRow: 0,
+            content: part.content,
+            roles: [],
+            partType: part.type,
+            partTitle: part.title,
+            slideIndex: 0,
+            totalSlidesInSection: 0,
+          });
+          return;
+        }
+
+        // Collects the given rows of the part into one sub-slide, keeping each row's speaker
+        const sliceRows = (rows: number[]): SubSlideRows => {
+          const slideContent: SlideContent = {};
+          const generated: SlideFlags = {};
+          (Object.keys(part.content) as Language[]).forEach(lang => {
+            // Missing and "~" rows stay as empty cells so every language keeps its row position
+            slideContent[lang] = rows.map(i => part.content[lang]?.[i] || '');
+            if (part.generated?.[lang]) generated[lang] = rows.map(i => Boolean(part.generated![lang]![i]));
+          });
+          return {
+            firstRow: rows[0],
+            content: slideContent,
+            roles: rows.map(i => this.getRowRole(part, i)),
+            labels: rows.map(i => part.rowLabels?.[i] || null),
+            generated
+          };
+        };
+
+        const columnWeights = this.getColumnWeights(part.content, settings);
+        const hasText = (l: Language) => settings.languages.includes(l) && Boolean(part.content[l]?.some(t => Boolean(t && t.trim())));
+        const columns = {
+          primary: this.getColumnBoxes(PRIMARY_LANGUAGES.filter(hasText), columnWeights, frame),
+          secondary: this.getColumnBoxes(SECONDARY_LANGUAGES.filter(hasText), {}, frame)
+        };
+        const isRubricPart = part.type === 'instruction';
+
+        const pagination = section.pagination || settings.pagination;
+        const rowLimit = pagination.mode === 'row' ? 1 : pagination.mode === 'rows' ? Math.max(1, pagination.rowsPerSlide || 1) : Infinity;
+
+        // Height of the whole part on one slide at `fontSize`
+        const measurePart = (fontSize: number) => {
+          const sized = { ...settings, fontSize };
+          let h = band ? 0 : this.measurePartTitleHeight(part.title, sized, frame.contentWidth);
+          for (let r = 0; r < totalRows; r++) {
+            h += (r > 0 ? rowGap : 0) + this.measureRowHeight(r, part.content, columns, this.getRowRole(part, r), part.rowLabels?.[r] || null, isRubricPart, sized);
+          }
+          return h;
+        };
+
+        // 'part' keeps the part on one slide at the largest size that fits; a part too long
+        // even at MIN_FIT_FONT_SIZE is paginated like 'fill' instead
+        let fontScale = 1;
+        let keepWhole = false;
+        if (pagination.mode === 'part') {
+          if (measurePart(settings.fontSize) <= availableHeight) {
+            keepWhole = true;
+          } else if (settings.fontSize > MIN_FIT_FONT_SIZE && measurePart(MIN_FIT_FONT_SIZE) <= availableHeight) {
+            let low = MIN_FIT_FONT_SIZE;
+            let high = settings.fontSize;
+            while (high - low > 0.5) {
+              const mid = (low + high) / 2;
+              if (measurePart(mid) <= availableHeight) low = mid;
+              else high = mid;
+            }
+            fontScale = low / settings.fontSize;
+            keepWhole = true;
+          }
+        }
+
+        // Pack rows into sub-slides. A role label is measured as part of its row,
+        // so a label always lands on the same sub-slide as the first line it introduces.
+        const subSlidesContent: SubSlideRows[] = [];
+        let currentSlideRows: number[] = [];
+        // The first sub-slide carries the part title header, so it starts partly filled
+        let currentSlideH = titleH;
+
+        if (keepWhole) {
+          subSlidesContent.push(sliceRows(Array.from({ length: totalRows }, (_, r) => r)));
+        }
+
+        for (let r = keepWhole ? totalRows : 0; r < totalRows; r++) {
+          const rowRole = this.getRowRole(part, r);
+          const rowLabel = part.rowLabels?.[r] || null;
+          const rowH = this.measureRowHeight(r, part.content, columns, rowRole, rowLabel, isRubricPart, settings);
+
+          // If a single row is larger than available height by itself
+          const rowBudget = availableHeight - (subSlidesContent.length === 0 && currentSlideRows.length === 0 ? titleH : 0);
+          if (rowH > rowBudget) {
+            // Push previous accumulated rows if any
+            if (currentSlideRows.length > 0) {
+              subSlidesContent.push(sliceRows(currentSlideRows));
+              currentSlideRows = [];
+            }
+            currentSlideH = 0;
+
+            // Split this huge row across multiple sub-slides, more finely while a chunk still
+            // overflows: words wrap unevenly, so an even split by height can fall short
+            const maxChunks = Math.max(...(Object.values(part.content) as (string[] | undefined)[])
+              .map(rows => rows?.[r] ? InlineMarkup.splitWords(rows[r]).length : 1));
+            let numChunks = Math.min(maxChunks, Math.max(2, Math.ceil(rowH / rowBudget)));
+            let chunks = this.splitSingleRowIntoChunks(part.content, r, numChunks);
+            while (numChunks < maxChunks && chunks.some((chunk, chunkIdx) =>
+              this.measureRowHeight(0, chunk, columns, chunkIdx === 0 ? rowRole : null, chunkIdx === 0 ? rowLabel : null, isRubricPart, settings) > rowBudget
+            )) {
+              chunks = this.splitSingleRowIntoChunks(part.content, r, ++numChunks);
+            }
+            const generated: SlideFlags = {};
+            (Object.keys(part.generated || {}) as Language[]).forEach(lang => {
+              generated[lang] = [Boolean(part.generated![lang]![r])];
+            });
+            chunks.forEach((chunk, chunkIdx) => {
+              // The label travels with the opening words of the row only
+              subSlidesContent.push({
+                firstRow: r,
+                content: chunk,
+                roles: [chunkIdx === 0 ? rowRole : null],
+                labels: [chunkIdx === 0 ? rowLabel : null],
+                generated
+              });
+            });
+            continue;
+          }
+
+          // The title's bottom margin already spaces the first row
+          const addedH = currentSlideRows.length === 0 ? rowH : rowH + rowGap;
+          if (currentSlideRows.length > 0 && (currentSlideRows.length >= rowLimit || currentSlideH + addedH > availableHeight)) {
+            // Push current slide and start a new one for overflow, or once it holds its share of rows
+            subSlidesContent.push(sliceRows(currentSlideRows));
+            currentSlideRows = [r];
+            currentSlideH = rowH;
+          } else {
+            currentSlideRows.push(r);
+            currentSlideH += addedH;
+          }
+        }
+
+        if (currentSlideRows.length > 0) {
+          subSlidesContent.push(sliceRows(currentSlideRows));
+        }
+
+        // Add sub-slides to sectionSlides
+        const totalSubSlides = Math.max(1, subSlidesContent.length);
+        subSlidesContent.forEach((subSlide, subIdx) => {
+          sectionSlides.push({
+            id: `content-${section.id}-${key}-${subIdx}`,
+            type: 'content',
+            sectionTitle: section.title,
+            sectionId: section.id,
+            partIndex: partIdx,
+            partKey: key,
+            subSlideIndex: subIdx,
+            totalSubSlides,
+            firstRow: subSlide.firstRow,
+            content: subSlide.content,
+            roles: subSlide.roles,
+            rowLabels: subSlide.labels,
+            generated: subSlide.generated,
+            partType: part.type,
+            partTitle: subIdx === 0 ? part.title : undefined,
+            columnWeights,
+            fontScale: fontScale < 1 ? fontScale : undefined,
+            slideIndex: 0,
+            totalSlidesInSection: 0,
+          });
+        });
+      });
+
+      // Update slideIndex and totalSlidesInSection
+      const contentSlidesCount = sectionSlides.filter(s => s.type === 'content').length;
+      let contentIndexCounter = 1;
+
+      sectionSlides.forEach(slide => {
+        slide.totalSlidesInSection = contentSlidesCount;
+        if (slide.type === 'content') {
+          slide.slideIndex = contentIndexCounter++;
+        } else {
+          slide.slideIndex = 0;
+        }
+        computed.push(slide);
+      });
+    });
+
+    return computed;
+  }
+
+  /**
+   * Relative widths of the primary columns of a part, from its longest stanza in each
+   * language. All sub-slides of the part share them, so the columns hold still.
+   */
+  private static getColumnWeights(content: SlideContent, settings: AppSettings): ColumnWeights {
+    const pressure = Math.pow(settings.fontSize / 22, 1.2);
+    const weights: ColumnWeights = {};
+    PRIMARY_LANGUAGES.forEach(l => {
+      const stanzas = content[l] || [];
+      if (!settings.languages.includes(l) || !stanzas.some(t => Boolean(t && t.trim()))) return;
+      const maxLen = stanzas.reduce((m, s) => Math.max(m, s ? InlineMarkup.strip(s).length : 0), 0);
+      weights[l] = Math.max(80, maxLen * getLanguageDef(l).widthFootprint * pressure);
+    });
+    return weights;
+  }
+
+  private static getHeadingFontFamily(lang: Language): string {
+    return this.getHeadingFontClass(lang) === 'font-cinzel' ? CINZEL_STACK : getLanguageDef(lang).fontFamily;
+  }
+
+  /**
+   * Width left for the text in each column of a grid of `langs`, after the padding and
+   * divider between columns (px-3/md:px-5 and border-l in the Reader's render)
+   */
+  private static getColumnBoxes(langs: Language[], weights: ColumnWeights, frame: SlideFrame): ColumnBox[] {
+    const totalWeight = langs.reduce((sum, l) => sum + (weights[l] || 1), 0) || 1;
+    return langs.map((lang, idx) => {
+      const share = langs.length <= 1 ? 1 : (weights[lang] || 1) / totalWeight;
+      const padding = (idx > 0 ? frame.columnPadding + 1 : 0) + (idx < langs.length - 1 ? frame.columnPadding : 0);
+      const copticInset = getLanguageDef(lang).fontClass === 'font-coptic' ? 8 : 0;
+      return { lang, width: Math.max(1, frame.contentWidth * share - padding - copticInset) };
+    });
+  }
+
+  /**
+   * Height of the role label line that sits above a speaker's first line (mb-1 below it)
+   */
+  private static getRoleLabelHeight(settings: AppSettings): number {
+    return this.getRoleLabelFontSize(settings.fontSize) * BODY_LINE_HEIGHT + 4;
+  }
+
+  /**
+   * Rendered pixel height of row `r` within `content`, measured with the fonts it is set in.
+   * Mirrors the Reader's row markup: the primary grid, then (space-y-2) the secondary grid.
+   * Every column with text carries the role label; the verse number only shows once.
+   */
+  private static measureRowHeight(
+    r: number,
+    content: SlideContent,
+    columns: { primary: ColumnBox[]; secondary: ColumnBox[] },
+    role: SpeakerRole | null,
+    label: string | null,
+    isRubricPart: boolean,
+    settings: AppSettings
+  ): number {
+    const columnHeight = (box: ColumnBox, lineHeight: number, italic: boolean, withLabel: boolean) => {
+      const text = content[box.lang]?.[r];
+      if (!text) return 0;
+      const size = this.getScaledFontSize(box.lang, settings.fontSize);
+      // The verse number is a bold Inter span at 0.55em with mx-1, glued to the first word
+      const indent = withLabel && label ? TextLayout.measure(label, { family: INTER_STACK, size: size * 0.55, weight: 700 }) + 8 : 0;
+      const lines = TextLayout.countLines(text, { family: getLanguageDef(box.lang).fontFamily, size, italic }, box.width, indent);
+      return lines * size * lineHeight + (role ? this.getRoleLabelHeight(settings) : 0);
+    };
+
+    const primaryH = Math.max(0, ...columns.primary.map(box => columnHeight(box, PRIMARY_LINE_HEIGHT, isRubricPart, true)));
+    const secondaryH = Math.max(0, ...columns.secondary.map(box => columnHeight(box, SECONDARY_LINE_HEIGHT, true, columns.primary.length === 0)));
+    return primaryH + secondaryH + (columns.primary.length > 0 && columns.secondary.length > 0 ? 8 : 0);
+  }
+
+  /**
+   * Height of the part title header, reserved on a part's first sub-slide: the titles
+   * wrap like words (gap-x-8, gap-y-1), then pb-3, the rule and mb-8
+   */
+  private static measurePartTitleHeight(title: LiturgicalPart['title'], settings: AppSettings, contentWidth: number): number {
+    if (!title) return 0;
+    const shown = settings.languages.filter(l => title[l]);
+    if (shown.length === 0) return 0;
+    let total = 0;
+    let lineWidth = 0;
+    let lineHeight = 0;
+    shown.forEach(l => {
+      const size = this.getScaledFontSize(l, settings.fontSize) * 0.8;
+      const text = title[l]!;
+      // tracking-wide adds 0.025em after every character
+      const width = TextLayout.measure(text, { family: this.getHeadingFontFamily(l), size, weight: 700 }) + text.length * size * 0.025;
+      if (lineWidth > 0 && lineWidth + 32 + width > contentWidth) {
+        total += lineHeight + 4;
+        lineWidth = width;
+        lineHeight = 0;
+      } else {
+        lineWidth += (lineWidth > 0 ? 32 : 0) + width;
+      }
+      lineHeight = Math.max(lineHeight, size * BODY_LINE_HEIGHT);
+    });
+    return total + lineHeight + 12 + 1 + 32;
+  }
+
+  /**
+   * Speaker of row `r`, taken from whichever language marks it
+   */
+  private static getRowRole(part: LiturgicalPart, r: number): SpeakerRole | null {
+    if (!part.roles) return null;
+    for (const lang of Object.keys(part.roles) as Language[]) {
+      const role = part.roles[lang]?.[r];
+      if (role) return role;
+    }
+    return null;
+  }
+
+  /**
+   * Helper to split a long single row into multiple text chunks if it exceeds slide height on its own
+   */
+  private static splitSingleRowIntoChunks(
+    content: SlideContent,
+    rowIndex: number,
+    numChunks: number
+  ): SlideContent[] {
+    const chunkedList: SlideContent[] = Array.from({ length: numChunks }, () => ({}));
+
+    (Object.keys(content) as Language[]).forEach(lang => {
+      const fullText = content[lang]?.[rowIndex] || '';
+      if (!fullText) return;
+
+      // Each word keeps its own markup, so a rubric or bold run split across chunks stays styled
+      const words = InlineMarkup.splitWords(fullText);
+      if (words.length <= numChunks) {
+        chunkedList[0][lang] = [fullText];
+        return;
+      }
+
+      const wordsPerChunk = Math.ceil(words.length / numChunks);
+      for (let c = 0; c < numChunks; c++) {
+        const chunkWords = words.slice(c * wordsPerChunk, (c + 1) * wordsPerChunk);
+        if (chunkWords.length > 0) {
+          chunkedList[c][lang] = [chunkWords.join(' ')];
+        }
+      }
+    });
+
+    return chunkedList.filter(c => Object.keys(c).length > 0);
+  }
+}
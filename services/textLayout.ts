@@ -0,0 +1,117 @@
+import { InlineMarkup } from './inlineMarkup.ts';
+
+export interface TextStyle {
+  family: string; // CSS font stack
+  size: number; // px
+  italic?: boolean;
+  weight?: number;
+}
+
+/**
+ * Measures text with the fonts the Reader renders it in, so slides can be paginated
+ * ahead of rendering. Widths come from a canvas and are cached per font, size and text.
+ */
+export class TextLayout {
+  // Its glyphs are far wider than the serif fallback, so slides are measured again once it arrives
+  static readonly awaitedFont = 'FreeSerifAvvaShenouda';
+
+  private static widthCache = new Map<string, number>();
+  private static maxCacheSize = 50000;
+  private static context: CanvasRenderingContext2D | null | undefined;
+
+  static font(style: TextStyle): string {
+    return `${style.italic ? 'italic ' : ''}${style.weight || 400} ${style.size}px ${style.family}`;
+  }
+
+  static measure(text: string, style: TextStyle): number {
+    const font = this.font(style);
+    const key = `${font}\u0000${text}`;
+    const cached = this.widthCache.get(key);
+    if (cached !== undefined) return cached;
+
+    const context = this.getContext();
+    let width: number;
+    if (context) {
+      context.font = font;
+      width = context.measureText(text).width;
+    } else {
+      width = text.length * style.size * 0.5;
+    }
+    if (this.widthCache.size >= this.maxCacheSize) this.widthCache.clear();
+    this.widthCache.set(key, width);
+    return width;
+  }
+
+  /**
+   * Lines taken by `text` (with inline markup) wrapped at spaces within `maxWidth`,
+   * as a block with the same font and no word breaking would wrap it.
+   * `indent` is inline content glued to the first word, like a verse number.
+   */
+  static countLines(text: string, style: TextStyle, maxWidth: number, indent = 0): number {
+    const words: number[] = [];
+    let word = 0;
+    let inWord = false;
+    InlineMarkup.parse(text).forEach(run => {
+      const runStyle: TextStyle = {
+        ...style,
+        italic: style.italic || run.rubric,
+        weight: run.bold ? 700 : run.refrain ? 600 : style.weight
+      };
+      run.text.split(/(\s+)/).forEach(piece => {
+        if (!piece) return;
+        if (/^\s+$/.test(piece)) {
+          if (inWord) words.push(word);
+          word = 0;
+          inWord = false;
+          return;
+        }
+        // A word may change style midway, e.g. a bold initial
+        word += this.measure(piece, runStyle);
+        inWord = true;
+      });
+    });
+    if (inWord) words.push(word);
+    if (words.length === 0) return indent > 0 ? 1 : 0;
+
+    const space = this.measure(' ', style);
+    let lines = 1;
+    let lineWidth = indent + words[0];
+    for (let i = 1; i < words.length; i++) {
+      if (lineWidth + space + words[i] > maxWidth) {
+        lines++;
+        lineWidth = words[i];
+      } else {
+        lineWidth += space + words[i];
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * Calls back whenever fonts finish loading, after dropping the widths measured with
+   * fallbacks. Returns the unsubscribe function.
+   */
+  static onFontsLoaded(listener: () => void): () => void {
+    if (typeof document === 'undefined' || !document.fonts) return () => {};
+    let active = true;
+    const handle = () => {
+      if (!active) return;
+      this.widthCache.clear();
+      listener();
+    };
+    // Web fonts only load once used, so the Coptic font is asked for up front
+    document.fonts.load(`16px '${this.awaitedFont}'`).then(handle, () => {});
+    document.fonts.addEventListener('loadingdone', handle);
+    return () => {
+      active = false;
+      document.fonts.removeEventListener('loadingdone', handle);
+    };
+  }
+
+  private static getContext(): CanvasRenderingContext2D | null {
+    if (this.context === undefined) {
+      this.context = typeof document === 'undefined' ? null : document.createElement('canvas').getContext('2d');
+    }
+    return this.context;
+  }
+}
@@ -0,0 +1,74 @@
+import { AppSettings, Theme } from '../types.ts';
+import { THEME_PRESETS } from '../constants.tsx';
+
+// CSS variable set from each theme field (see the :root defaults in index.html)
+const THEME_VARIABLES: { [key in Exclude<keyof Theme, 'id' | 'name' | 'backgroundImage'>]: string } = {
+  background: '--theme-bg',
+  panel: '--theme-panel',
+  text: '--theme-text',
+  secondaryText: '--theme-text-secondary',
+  accent: '--theme-accent',
+  divider: '--theme-divider',
+  rubric: '--theme-rubric',
+  priest: '--theme-role-priest',
+  deacon: '--theme-role-deacon',
+  people: '--theme-role-people'
+};
+
+export class ThemeService {
+  private static themeIdKey = 'coptic_reader_theme';
+  private static customThemesKey = 'coptic_reader_custom_themes';
+
+  static defaultThemeId = THEME_PRESETS[0].id;
+
+  static isPreset(id: string): boolean {
+    return THEME_PRESETS.some(t => t.id === id);
+  }
+
+  static getThemes(settings: AppSettings): Theme[] {
+    return [...THEME_PRESETS, ...settings.customThemes];
+  }
+
+  /**
+   * The selected theme, falling back to the default if it has been deleted
+   */
+  static resolve(settings: AppSettings): Theme {
+    return this.getThemes(settings).find(t => t.id === settings.themeId) || THEME_PRESETS[0];
+  }
+
+  static apply(theme: Theme, root: HTMLElement = document.documentElement) {
+    (Object.keys(THEME_VARIABLES) as (keyof typeof THEME_VARIABLES)[]).forEach(field => {
+      root.style.setProperty(THEME_VARIABLES[field], theme[field]);
+    });
+    root.style.setProperty('--theme-bg-image', theme.backgroundImage ? `url("${theme.backgroundImage.replace(/"/g, '%22')}")` : 'none');
+  }
+
+  /**
+   * A user theme starting from `base`, to be edited and added to the settings
+   */
+  static createCustom(base: Theme, existing: Theme[]): Theme {
+    let n = existing.length + 1;
+    while (existing.some(t => t.id === `custom-${n}`)) n++;
+    return { ...base, id: `custom-${n}`, name: `${base.name} (custom)` };
+  }
+
+  static load(): Pick<AppSettings, 'themeId' | 'customThemes'> {
+    let customThemes: Theme[] = [];
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.customThemesKey) || '[]');
+      // Colors added since a theme was saved come from the default preset
+      if (Array.isArray(stored)) customThemes = stored.map(theme => ({ ...THEME_PRESETS[0], ...theme }));
+    } catch (e) {
+      console.error('Failed to read custom themes', e);
+    }
+    return {
+      themeId: localStorage.getItem(this.themeIdKey) || this.defaultThemeId,
+      customThemes
+    };
+  }
+
+  static save(settings: AppSettings) {
+    localStorage.setItem(this.themeIdKey, settings.themeId);
+    localStorage.setItem(this.customThemesKey, JSON.stringify(settings.customThemes));
+  }
+}
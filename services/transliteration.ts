@@ -0,0 +1,254 @@
+import { Language, LiturgicalPart } from '../types.ts';
+import { InlineMarkup } from './inlineMarkup.ts';
+import { ScriptNormalizer } from './scriptNormalizer.ts';
+
+// One Coptic letter of a word, lowercased, with the marks written over it
+interface Letter {
+  char: string;
+  upper: boolean;
+  jinkim: boolean; // Grave or dot above: the letter forms a syllable of its own
+  diaeresis: boolean; // ⲓ̈ / ⲩ̈: a vowel that does not join the one before it
+}
+
+type LetterRule = (word: Letter[], i: number) => { text: string; consumed?: number };
+
+const VOWELS = 'ⲁⲉⲏⲓⲟⲱⲩ';
+const FRONT_VOWELS = 'ⲉⲏⲓⲩ';
+
+// Nomina sacra and other words read differently from their letters, keyed without marks
+const ENGLISH_WORDS: { [word: string]: string } = {
+  'ⲫϯ': 'efnouti',
+  'ⲙⲫϯ': 'emefnouti',
+  'ⲓⲏⲥ': 'eesous',
+  'ⲡⲭⲥ': 'pikhristos',
+  'ⲭⲥ': 'khristos',
+  'ⲡϭⲥ': 'epchois'
+};
+
+const ARABIC_WORDS: { [word: string]: string } = {
+  'ⲫϯ': 'إفنوتي',
+  'ⲙⲫϯ': 'إمإفنوتي',
+  'ⲓⲏⲥ': 'إيسوس',
+  'ⲡⲭⲥ': 'بخريستوس',
+  'ⲭⲥ': 'خريستوس',
+  'ⲡϭⲥ': 'إبتشويس'
+};
+
+const isVowel = (l: Letter | undefined) => Boolean(l && VOWELS.includes(l.char));
+const isFront = (l: Letter | undefined) => Boolean(l && FRONT_VOWELS.includes(l.char));
+
+/**
+ * Greco-Bohairic (church) pronunciation, written in English letters
+ */
+const ENGLISH_RULES: { [char: string]: LetterRule } = {
+  'ⲁ': (w, i) => w[i + 1]?.char === 'ⲩ' && !w[i + 1].diaeresis ? { text: 'av', consumed: 2 } : { text: 'a' },
+  'ⲃ': (w, i) => ({ text: w[i + 1] && !isVowel(w[i + 1]) ? 'b' : 'v' }),
+  // Nasal before another velar (ⲁⲅⲅⲉⲗⲟⲥ: angelos), soft before front vowels, guttural otherwise
+  'ⲅ': (w, i) => ({ text: 'ⲅⲕⲝⲭ'.includes(w[i + 1]?.char) ? 'n' : isFront(w[i + 1]) ? 'g' : 'gh' }),
+  'ⲇ': () => ({ text: 'd' }),
+  'ⲉ': (w, i) => {
+    const next = w[i + 1];
+    if (next?.char === 'ⲩ' && !next.diaeresis) return { text: 'ev', consumed: 2 };
+    if (next?.char === 'ⲓ' && !next.diaeresis && !next.jinkim) return { text: 'i', consumed: 2 };
+    return { text: 'e' };
+  },
+  'ⲍ': () => ({ text: 'z' }),
+  'ⲏ': () => ({ text: 'ee' }),
+  // Native words spell "t" + "h" as ⲑ; before a consonant or at the end it is a plain "t"
+  'ⲑ': (w, i) => ({ text: w[i + 1] && isVowel(w[i + 1]) ? 'th' : 't' }),
+  'ⲓ': (w, i) => ({ text: i === 0 && isVowel(w[1]) && !w[1].diaeresis ? 'y' : 'i' }),
+  'ⲕ': () => ({ text: 'k' }),
+  'ⲗ': () => ({ text: 'l' }),
+  'ⲙ': () => ({ text: 'm' }),
+  'ⲛ': () => ({ text: 'n' }),
+  'ⲝ': () => ({ text: 'x' }),
+  'ⲟ': (w, i) => w[i + 1]?.char === 'ⲩ' && !w[i + 1].diaeresis ? { text: 'ou', consumed: 2 } : { text: 'o' },
+  'ⲡ': () => ({ text: 'p' }),
+  'ⲣ': () => ({ text: 'r' }),
+  'ⲥ': () => ({ text: 's' }),
+  'ⲧ': () => ({ text: 't' }),
+  'ⲩ': () => ({ text: 'i' }),
+  'ⲫ': () => ({ text: 'ph' }),
+  'ⲭ': (w, i) => ({ text: isFront(w[i + 1]) ? 'sh' : 'kh' }),
+  'ⲯ': () => ({ text: 'ps' }),
+  'ⲱ': () => ({ text: 'o' }),
+  'ϣ': () => ({ text: 'sh' }),
+  'ϥ': () => ({ text: 'f' }),
+  'ϧ': () => ({ text: 'kh' }),
+  'ϩ': () => ({ text: 'h' }),
+  // Hard before back vowels and consonants (ϫⲟⲙ: gom), soft before front vowels (ϫⲉ: je)
+  'ϫ': (w, i) => ({ text: isFront(w[i + 1]) ? 'j' : 'g' }),
+  'ϭ': () => ({ text: 'ch' }),
+  'ϯ': () => ({ text: 'ti' })
+};
+
+const arabicVowel = (initial: string, medial: string): LetterRule => (w, i) => ({ text: i === 0 ? initial : medial });
+
+/**
+ * The conventions of the Arabic-script service books: vowels are written out as letters,
+ * long ⲏ/ⲱ as ي/و, a word-initial vowel sits on a hamza, "p" is written ب and the soft ϫ چ,
+ * since ج is read as a hard "g" in Egypt
+ */
+const ARABIC_RULES: { [char: string]: LetterRule } = {
+  'ⲁ': (w, i) => {
+    const diphthong = w[i + 1]?.char === 'ⲩ' && !w[i + 1].diaeresis;
+    // ⲁ̀ⲙⲏⲛ: آمين
+    const first = i === 0 ? (w[i].jinkim ? 'آ' : 'أ') : 'ا';
+    return diphthong ? { text: `${first}ف`, consumed: 2 } : { text: first };
+  },
+  'ⲃ': (w, i) => ({ text: w[i + 1] && !isVowel(w[i + 1]) ? 'ب' : 'ف' }),
+  'ⲅ': (w, i) => ({ text: 'ⲅⲕⲝⲭ'.includes(w[i + 1]?.char) ? 'ن' : isFront(w[i + 1]) ? 'ج' : 'غ' }),
+  'ⲇ': () => ({ text: 'د' }),
+  'ⲉ': (w, i) => {
+    const next = w[i + 1];
+    const first = i === 0 ? 'إ' : 'ي';
+    if (next?.char === 'ⲩ' && !next.diaeresis) return { text: `${first}ف`, consumed: 2 };
+    if (next?.char === 'ⲓ' && !next.diaeresis && !next.jinkim) return { text: i === 0 ? 'إي' : 'ي', consumed: 2 };
+    return { text: first };
+  },
+  'ⲍ': () => ({ text: 'ز' }),
+  'ⲏ': arabicVowel('إي', 'ي'),
+  'ⲑ': (w, i) => ({ text: w[i + 1] && isVowel(w[i + 1]) ? 'ث' : 'ت' }),
+  'ⲓ': (w, i) => ({ text: i === 0 ? (isVowel(w[1]) && !w[1].diaeresis ? 'ي' : 'إي') : 'ي' }),
+  'ⲕ': () => ({ text: 'ك' }),
+  'ⲗ': () => ({ text: 'ل' }),
+  'ⲙ': () => ({ text: 'م' }),
+  'ⲛ': () => ({ text: 'ن' }),
+  'ⲝ': () => ({ text: 'كس' }),
+  'ⲟ': (w, i) => w[i + 1]?.char === 'ⲩ' && !w[i + 1].diaeresis
+    ? { text: i === 0 ? 'أو' : 'و', consumed: 2 }
+    : { text: i === 0 ? 'أو' : 'و' },
+  'ⲡ': () => ({ text: 'ب' }),
+  'ⲣ': () => ({ text: 'ر' }),
+  'ⲥ': () => ({ text: 'س' }),
+  'ⲧ': () => ({ text: 'ت' }),
+  'ⲩ': arabicVowel('إي', 'ي'),
+  'ⲫ': () => ({ text: 'ف' }),
+  'ⲭ': (w, i) => ({ text: isFront(w[i + 1]) ? 'ش' : 'خ' }),
+  'ⲯ': () => ({ text: 'بس' }),
+  'ⲱ': arabicVowel('أو', 'و'),
+  'ϣ': () => ({ text: 'ش' }),
+  'ϥ': () => ({ text: 'ف' }),
+  'ϧ': () => ({ text: 'خ' }),
+  'ϩ': () => ({ text: 'ه' }),
+  'ϫ': (w, i) => ({ text: isFront(w[i + 1]) ? 'چ' : 'ج' }),
+  'ϭ': () => ({ text: 'تش' }),
+  'ϯ': () => ({ text: 'تي' })
+};
+
+// Latin punctuation copied from the Coptic, in its Arabic form so it faces the right way
+const ARABIC_PUNCTUATION: { [mark: string]: string } = { ',': '،', ';': '؛', '?': '؟' };
+
+/**
+ * Rule-based transliteration of Bohairic Coptic. Stanzas keep their inline markup;
+ * anything that is not a Coptic letter is passed through unchanged.
+ */
+export class Transliterator {
+  // Generated from the Coptic text when a part has none written by hand
+  static generators: { [key in Language]?: (coptic: string) => string } = {
+    [Language.TRANSLITERATED_ENGLISH]: text => Transliterator.copticToEnglish(text),
+    [Language.TRANSLITERATED_ARABIC]: text => Transliterator.copticToArabic(text)
+  };
+
+  /**
+   * Fills each transliterated language from the part's Coptic stanzas wherever no
+   * transliteration was written by hand, and flags the filled stanzas in `part.generated`.
+   * A generated stanza takes the @if conditions of the Coptic stanza it came from.
+   */
+  static fillPart(part: LiturgicalPart) {
+    const coptic = part.content[Language.COPTIC];
+    if (!coptic || coptic.length === 0) return;
+    (Object.keys(this.generators) as Language[]).forEach(lang => {
+      const generate = this.generators[lang]!;
+      const written = part.content[lang] || [];
+      const stanzas = [...written];
+      const flags = written.map(() => false);
+      coptic.forEach((text, i) => {
+        if (written[i]?.trim()) return;
+        if (text.trim()) {
+          stanzas[i] = generate(text);
+          flags[i] = true;
+        } else if (i >= written.length) {
+          // Keeps the rows after it aligned with the Coptic
+          stanzas[i] = '';
+          flags[i] = true;
+        }
+      });
+      while (stanzas.length > written.length && !stanzas[stanzas.length - 1]) {
+        stanzas.pop();
+        flags.pop();
+      }
+      if (!flags.includes(true)) return;
+
+      part.content[lang] = stanzas;
+      part.generated = { ...part.generated, [lang]: flags };
+      const copticConditions = part.rowConditions?.[Language.COPTIC];
+      if (copticConditions) {
+        const conditions = [...(part.rowConditions![lang] || [])];
+        flags.forEach((generated, i) => {
+          if (generated) conditions[i] = copticConditions[i] || null;
+        });
+        part.rowConditions![lang] = Array.from(conditions, c => c || null);
+      }
+    });
+  }
+
+  static copticToEnglish(text: string): string {
+    return this.transliterate(text, ENGLISH_RULES, ENGLISH_WORDS, () => 'e');
+  }
+
+  static copticToArabic(text: string): string {
+    const arabic = this.transliterate(text, ARABIC_RULES, ARABIC_WORDS, atStart => (atStart ? 'إ' : 'ي'));
+    return arabic.replace(/[,;?]/g, mark => ARABIC_PUNCTUATION[mark]);
+  }
+
+  /**
+   * Transliterates every Coptic word of a stanza, run by run. A jinkim over a consonant
+   * is read with a short vowel before it (ⲛ̀ⲧⲉ → ente), spelled by `jinkimVowel`.
+   */
+  private static transliterate(
+    text: string,
+    rules: { [char: string]: LetterRule },
+    words: { [word: string]: string },
+    jinkimVowel: (atStart: boolean) => string
+  ): string {
+    const runs = InlineMarkup.parse(text).map(run => ({
+      ...run,
+      text: run.text.replace(/[Ⲁ-⳿Ϣ-ϯͰ-Ͽ][Ⲁ-⳿Ϣ-ϯͰ-Ͽ̀-ͯ︠-︯]*/g, chunk => {
+        const word = this.splitLetters(chunk);
+        if (word.length === 0) return chunk;
+        const bare = word.map(l => l.char).join('');
+        let out = words[bare];
+        if (out === undefined) {
+          out = '';
+          for (let i = 0; i < word.length;) {
+            const rule = rules[word[i].char];
+            const { text: piece, consumed = 1 } = rule ? rule(word, i) : { text: word[i].char };
+            out += word[i].jinkim && !isVowel(word[i]) ? jinkimVowel(i === 0) + piece : piece;
+            i += consumed;
+          }
+        }
+        return word[0].upper ? out.charAt(0).toUpperCase() + out.slice(1) : out;
+      })
+    }));
+    return InlineMarkup.serialize(runs);
+  }
+
+  private static splitLetters(chunk: string): Letter[] {
+    const letters: Letter[] = [];
+    for (const ch of chunk.normalize('NFD')) {
+      const code = ch.charCodeAt(0);
+      if ((code >= 0x0300 && code <= 0x036F) || (code >= 0xFE20 && code <= 0xFE2F)) {
+        const last = letters[letters.length - 1];
+        if (!last) continue;
+        if (ch === '̀' || ch === '́' || ch === '̇') last.jinkim = true;
+        if (ch === '̈') last.diaeresis = true;
+        // Overlines only mark abbreviations
+        continue;
+      }
+      const char = ScriptNormalizer.foldCopticLetter(ch);
+      letters.push({ char, upper: ch.toLowerCase() !== ch, jinkim: false, diaeresis: false });
+    }
+    return letters;
+  }
+}
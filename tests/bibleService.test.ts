@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Language } from '../types.ts';
+
+// BibleService keeps its texts in static state, so each test loads a fresh copy
+const freshService = async () => (await import('../services/bibleService.ts')).BibleService;
+
+const GENESIS = JSON.stringify({ Gen: { '1': ['In the beginning God created the heaven and the earth.', 'And the earth was without form.'] } });
+
+const respond = (body: string, contentType: string, status = 200) => new Response(body, { status, headers: { 'content-type': contentType } });
+
+describe('BibleService', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('treats missing files as absent, including the HTML a host serves in their place', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => url.endsWith('en.json')
+      ? respond('<!DOCTYPE html><html></html>', 'text/html')
+      : respond('Not found', 'text/plain', 404)));
+    const BibleService = await freshService();
+    await BibleService.load();
+    expect(BibleService.getStatus().every(s => s.source === null)).toBe(true);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('loads bundled files and skips ones in another shape', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => url.endsWith('en.json')
+      ? respond(GENESIS, 'application/json')
+      : respond('{"verses": []}', 'application/json')));
+    const BibleService = await freshService();
+    await BibleService.load();
+    expect(BibleService.getStatus().find(s => s.lang === Language.ENGLISH)).toEqual({ lang: Language.ENGLISH, source: 'bundled', books: 1 });
+    expect(BibleService.getStatus().find(s => s.lang === Language.ARABIC)!.source).toBeNull();
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(BibleService.lookup(BibleService.parseReference('Gen 1:1-2')!).content[Language.ENGLISH]).toHaveLength(2);
+  });
+
+  it('imports a file chosen by the user and rejects anything else', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const BibleService = await freshService();
+    await expect(BibleService.importFile(Language.ARABIC, '{ not json')).rejects.toThrow('not valid JSON');
+    await expect(BibleService.importFile(Language.ARABIC, '{"Genesis": {"1": ["..."]}}')).rejects.toThrow('Expected');
+    await expect(BibleService.importFile(Language.ARABIC, '{"Gen": {"1": [1, 2]}}')).rejects.toThrow('Expected');
+
+    await BibleService.importFile(Language.ARABIC, JSON.stringify({ Gen: { '1': ['في البدء خلق الله السماوات والارض.'] } }));
+    expect(BibleService.getStatus().find(s => s.lang === Language.ARABIC)!.source).toBe('imported');
+    expect(BibleService.lookup(BibleService.parseReference('Gen 1:1')!).content[Language.ARABIC]).toEqual(['في البدء خلق الله السماوات والارض.']);
+  });
+});
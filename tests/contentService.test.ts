@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { ContentService } from '../services/contentService.ts';
+import { Language } from '../types.ts';
+
+const parse = (lines: string[]) => ContentService.parseText(lines.join('\n'));
+
+describe('ContentService.parseText', () => {
+  it('reports an included part whose numbered ID is already taken', () => {
+    const { diagnostics } = parse([
+      '# Shared',
+      '## Common {#common}',
+      '### Our Father {#our-father}',
+      '[EN]',
+      'Our Father who art in heaven.',
+      '---',
+      '[EN]',
+      'Through Christ Jesus our Lord.',
+      '## Prime {#prime}',
+      '### Opening {#opening}',
+      '--- {#prayer}',
+      '@include common/our-father',
+      '--- {#prayer.2}',
+      '[EN]',
+      'Let us give thanks.'
+    ]);
+    expect(diagnostics).toEqual([expect.objectContaining({
+      severity: 'error',
+      line: 12,
+      message: expect.stringContaining('Duplicate ID "#prayer.2"')
+    })]);
+  });
+
+  it('reads a bracketed word that starts a line of text as text, with a warning', () => {
+    const { library, diagnostics } = parse([
+      '# Category',
+      '## Book',
+      '### Section',
+      '[EN]',
+      '[Priest] Let us pray.',
+      '\\[Priest] Peace be with all.'
+    ]);
+    expect(library[0].children![0].sections![0].parts[0].content[Language.ENGLISH]).toEqual(['[Priest] Let us pray.', '[Priest] Peace be with all.']);
+    expect(diagnostics).toEqual([expect.objectContaining({ severity: 'warning', line: 5, message: expect.stringContaining('start it with "\\"') })]);
+  });
+
+  it('reports an unknown tag alone on its line as an error', () => {
+    const { diagnostics } = parse(['# Category', '## Book', '### Section', '[EM]', 'Amen.']);
+    expect(diagnostics[0]).toEqual(expect.objectContaining({ severity: 'error', line: 4, message: expect.stringContaining('Unknown language tag [EM]') }));
+  });
+
+  it('still reads a heading deeper than "###" under a book as one of its sections', () => {
+    const { library, diagnostics } = parse(['# Category', '## Book', '### First', '[EN]', 'One.', '#### Second', '[EN]', 'Two.']);
+    const book = library[0].children![0];
+    expect(book.sections!.map(s => s.title)).toEqual(['First', 'Second']);
+    expect(book.sections![1].parts[0].content[Language.ENGLISH]).toEqual(['Two.']);
+    expect(diagnostics).toEqual([expect.objectContaining({ severity: 'warning', line: 6, message: expect.stringContaining('nested too deeply') })]);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { InlineMarkup } from '../services/inlineMarkup.ts';
+
+describe('InlineMarkup', () => {
+  it('parses bold, rubric and refrain spans', () => {
+    expect(InlineMarkup.parse('Lord **have mercy** {r:kneel}')).toEqual([
+      { text: 'Lord ' },
+      { text: 'have mercy', bold: true },
+      { text: ' ' },
+      { text: 'kneel', rubric: true }
+    ]);
+    expect(InlineMarkup.parse('Amen. {refrain}Alleluia')).toEqual([
+      { text: 'Amen. ' },
+      { text: 'Alleluia', refrain: true }
+    ]);
+  });
+
+  it('nests spans and keeps escaped markers as text', () => {
+    expect(InlineMarkup.parse('{r:say **Amen**}')).toEqual([
+      { text: 'say ', rubric: true },
+      { text: 'Amen', rubric: true, bold: true }
+    ]);
+    expect(InlineMarkup.strip('\\*\\* \\{r:x\\}')).toBe('** {r:x}');
+  });
+
+  it('keeps unclosed markers as text and reports them', () => {
+    expect(InlineMarkup.strip('**open {r:rubric}')).toBe('**open rubric');
+    expect(InlineMarkup.findIssues('**open {r:rubric}')).toEqual([
+      { offset: 0, message: 'Unclosed "**" is shown as plain text' }
+    ]);
+    // The rubric's stop ends it before the bold inside it closes
+    expect(InlineMarkup.parse('{r:a **b} c**')).toEqual([
+      { text: 'a **b', rubric: true },
+      { text: ' c**' }
+    ]);
+  });
+
+  it('stays linear with many unclosed markers', () => {
+    const start = Date.now();
+    const text = '{r:'.repeat(5000) + '{refrain:'.repeat(5000) + '**x';
+    expect(InlineMarkup.strip(text)).toBe(text);
+    expect(InlineMarkup.findIssues(text)).toHaveLength(10001);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+});
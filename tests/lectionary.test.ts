@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { Lectionary } from '../services/lectionary.ts';
+import { CopticCalendar } from '../services/copticCalendar.ts';
+import { InlineMarkup } from '../services/inlineMarkup.ts';
+import { Language, LiturgicalPart } from '../types.ts';
+
+const placeholder: LiturgicalPart = { id: 'readings', type: 'reading', content: {}, readings: 'liturgy' };
+
+const plain = (part: LiturgicalPart, lang: Language) => part.content[lang]?.map(stanza => InlineMarkup.strip(stanza));
+
+describe('Lectionary', () => {
+  it('offers only the services the table has readings for', () => {
+    expect(Lectionary.services).toEqual(['liturgy']);
+    expect(Lectionary.isKnownService('vespers')).toBe(false);
+    expect(Lectionary.isKnownService('matins')).toBe(false);
+  });
+
+  it('titles readings in English and Arabic', () => {
+    // Palm Sunday 2025
+    const parts = Lectionary.expand(placeholder, new Date(2025, 3, 13), new Map());
+    expect(parts.map(p => p.id)).toEqual(['readings.1', 'readings.2', 'readings.3', 'readings.4', 'readings.5']);
+    expect(parts[4].title).toEqual({ [Language.ENGLISH]: 'The Gospel · Jn 12:12-19', [Language.ARABIC]: 'الإنجيل · Jn 12:12-19' });
+    expect(plain(parts[4], Language.ENGLISH)).toEqual(['Text not in the library; add a reading part anchored #jn-12-12-19']);
+    expect(plain(parts[4], Language.ARABIC)).toEqual(['النص غير موجود في المكتبة؛ أضف جزء قراءة بالمعرّف #jn-12-12-19']);
+  });
+
+  it('says in both languages when a day is not in the table', () => {
+    const [notice] = Lectionary.expand(placeholder, new Date(2025, 6, 1), new Map());
+    expect(notice.title).toEqual({ [Language.ENGLISH]: 'Readings: Liturgy', [Language.ARABIC]: 'قراءات القداس' });
+    expect(plain(notice, Language.ENGLISH)).toEqual(['No Liturgy readings for 24 Paoni 1741 A.M. in the bundled lectionary']);
+    expect(plain(notice, Language.ARABIC)).toEqual(['لا توجد قراءات القداس ليوم 24 بؤونة 1741 ش في القطمارس المرفق']);
+  });
+
+  it('keeps the Nativity on 7 January, also when that is 28 Koiak', () => {
+    // 7 January 2024 is 28 Koiak, the year before a Coptic leap year; 2025 is 29 Koiak
+    for (const [date, copticDay] of [[new Date(2024, 0, 7), 28], [new Date(2025, 0, 7), 29]] as const) {
+      expect(CopticCalendar.toCoptic(date)).toMatchObject({ month: 4, day: copticDay });
+      expect(Lectionary.getDay(date)?.name[Language.ENGLISH]).toBe('The Nativity');
+      expect(CopticCalendar.getSeasons(date)).toContain('nativity');
+      expect(CopticCalendar.getSeasons(date)).not.toContain('nativity-fast');
+    }
+    expect(Lectionary.getDay(new Date(2024, 0, 8))).toBeNull();
+    expect(CopticCalendar.getSeasons(new Date(2024, 0, 6))).toContain('nativity-fast');
+    expect(CopticCalendar.getSeasons(new Date(2024, 0, 14))).toContain('nativity');
+    expect(CopticCalendar.getSeasons(new Date(2024, 0, 15))).not.toContain('nativity');
+  });
+});
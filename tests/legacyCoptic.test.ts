@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { LegacyCoptic, LegacyEncoding } from '../services/legacyCoptic.ts';
+
+// Words as typed with each font's keyboard layout, and the Unicode they stand for
+const WORDS: [encoding: LegacyEncoding, typed: string, unicode: string][] = [
+  ['cs-avva-shenouda', 'Tenouwst', 'Ⲧⲉⲛⲟⲩⲱϣⲧ'],
+  ['cs-avva-shenouda', 'Peniwt etqen nivyoui', 'Ⲡⲉⲛⲓⲱⲧ ⲉⲧϧⲉⲛ ⲛⲓⲫⲏⲟⲩⲓ'],
+  ['cs-avva-shenouda', 'Allylouia', 'Ⲁⲗⲗⲏⲗⲟⲩⲓⲁ'],
+  ['cs-avva-shenouda', 'afswpi', 'ⲁϥϣⲱⲡⲓ'],
+  ['cs-avva-shenouda', 'hijen [oic', 'ϩⲓϫⲉⲛ ϭⲟⲓⲥ'],
+  ['athanasius', 'Tenouwvt', 'Ⲧⲉⲛⲟⲩⲱϣⲧ'],
+  ['athanasius', 'Peniwt et]en nifhoui', 'Ⲡⲉⲛⲓⲱⲧ ⲉⲧϧⲉⲛ ⲛⲓⲫⲏⲟⲩⲓ'],
+  ['athanasius', 'Allhlouia', 'Ⲁⲗⲗⲏⲗⲟⲩⲓⲁ'],
+  ['athanasius', 'a[vwpi', 'ⲁϥϣⲱⲡⲓ'],
+  ['athanasius', '/ijen <ois', 'ϩⲓϫⲉⲛ ϭⲟⲓⲥ']
+];
+
+// The letters Latin spells with two (ⲑ th, ⲫ ph, ⲭ kh, ⲯ ps, ⲝ ks, ϯ ti) are single keys
+const DIGRAPHS: [encoding: LegacyEncoding, typed: string, unicode: string][] = [
+  ['cs-avva-shenouda', ";v,'x]", 'ⲑⲫⲭⲯⲝϯ'],
+  ['athanasius', 'qfcyx>', 'ⲑⲫⲭⲯⲝϯ'],
+  // Typing the two letters gives two letters, not the single one
+  ['athanasius', 'thps', 'ⲧⲏⲡⲥ'],
+  ['cs-avva-shenouda', 'tyc', 'ⲧⲏⲥ']
+];
+
+// A mark typed after a letter sits over that letter, capital or not
+const MARKS: [encoding: LegacyEncoding, typed: string, unicode: string][] = [
+  ['cs-avva-shenouda', 'P`syri', 'Ⲡ̀ϣⲏⲣⲓ'],
+  ['cs-avva-shenouda', 'm`viwt', 'ⲙ̀ⲫⲓⲱⲧ'],
+  ['cs-avva-shenouda', 'e`bol', 'ⲉ̀ⲃⲟⲗ'],
+  ['cs-avva-shenouda', 'P=,=c=', 'Ⲡ̅ⲭ̅ⲥ̅'],
+  ['athanasius', 'P`vhri', 'Ⲡ̀ϣⲏⲣⲓ'],
+  ['athanasius', 'm`fiwt', 'ⲙ̀ⲫⲓⲱⲧ'],
+  ['athanasius', 'e`bol', 'ⲉ̀ⲃⲟⲗ'],
+  ['athanasius', 'P^c^s^', 'Ⲡ̅ⲭ̅ⲥ̅']
+];
+
+describe('LegacyCoptic.convert', () => {
+  it.each(WORDS)('converts %s "%s" to %s', (encoding, typed, unicode) => {
+    expect(LegacyCoptic.convert(typed, encoding)).toBe(unicode);
+  });
+
+  it.each(DIGRAPHS)('converts %s "%s" to %s', (encoding, typed, unicode) => {
+    expect(LegacyCoptic.convert(typed, encoding)).toBe(unicode);
+  });
+
+  it.each(MARKS)('places the marks of %s "%s" as in %s', (encoding, typed, unicode) => {
+    expect(LegacyCoptic.convert(typed, encoding)).toBe(unicode);
+  });
+
+  it('keeps inline markup as typed', () => {
+    expect(LegacyCoptic.convert('**Tenouwst** {r:m`viwt}', 'cs-avva-shenouda')).toBe('**Ⲧⲉⲛⲟⲩⲱϣⲧ** {r:ⲙ̀ⲫⲓⲱⲧ}');
+  });
+
+  it.each(LegacyCoptic.encodings)('leaves Unicode Coptic unchanged in %s', encoding => {
+    const unicode = 'Ⲧⲉⲛⲟⲩⲱϣⲧ ⲙ̀Ⲫⲓⲱⲧ ⲛⲉⲙ Ⲡ̀ϣⲏⲣⲓ ⲛⲉⲙ Ⲡⲓⲡⲛⲉⲩⲙⲁ Ⲉⲑⲟⲩⲁⲃ: Ⲡ̅ⲭ̅ⲥ̅ ϯϭⲟⲙ';
+    expect(LegacyCoptic.convert(unicode, encoding)).toBe(unicode);
+  });
+});
+
+describe('LegacyCoptic.detect', () => {
+  it.each([
+    ['P^c^s^ /ijen <ois', 'athanasius'],
+    ["P`syri ;ouab ]'u,y", 'cs-avva-shenouda']
+  ])('finds the font of "%s"', (typed, encoding) => {
+    expect(LegacyCoptic.detect(typed)).toBe(encoding);
+  });
+
+  it.each([
+    'Ⲧⲉⲛⲟⲩⲱϣⲧ ⲙ̀Ⲫⲓⲱⲧ',
+    'We worship the Father',
+    '1, 2, 3:',
+    'نسجد للآب'
+  ])('does not flag "%s"', text => {
+    expect(LegacyCoptic.detect(text)).toBeNull();
+  });
+});
+
+describe('LegacyCoptic.convertDocument', () => {
+  it('converts legacy [COP] stanzas only', () => {
+    const doc = [
+      '### Doxology',
+      '[COP]: P`syri',
+      '[COP]: Ⲡⲉⲛⲓⲱⲧ',
+      '[EN]: Tenouwst',
+      '[COP]',
+      'C: Tenouwst'
+    ].join('\n');
+    expect(LegacyCoptic.convertDocument(doc)).toEqual({
+      text: [
+        '### Doxology',
+        '[COP]: Ⲡ̀ϣⲏⲣⲓ',
+        '[COP]: Ⲡⲉⲛⲓⲱⲧ',
+        '[EN]: Tenouwst',
+        '[COP]',
+        'C: Ⲧⲉⲛⲟⲩⲱϣⲧ'
+      ].join('\n'),
+      converted: 2
+    });
+  });
+
+  it('leaves a Unicode document as it is', () => {
+    const doc = '### Doxology\n[COP]: Ⲧⲉⲛⲟⲩⲱϣⲧ ⲙ̀Ⲫⲓⲱⲧ\n[EN]: We worship the Father';
+    expect(LegacyCoptic.convertDocument(doc)).toEqual({ text: doc, converted: 0 });
+  });
+});
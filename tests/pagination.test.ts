@@ -0,0 +1,233 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createRequire } from 'module';
+import path from 'path';
+import { createCanvas, GlobalFonts } from '@napi-rs/canvas';
+import { SlidePagination, SlideFrame } from '../services/slidePagination.ts';
+import { InlineMarkup } from '../services/inlineMarkup.ts';
+import { INITIAL_DATA, PRIMARY_LANGUAGES, SECONDARY_LANGUAGES, getLanguageDef } from '../constants.tsx';
+import { AppSettings, ComputedSlide, Language, LibraryItem, LiturgicalPart, Pagination, SpeakerRole } from '../types.ts';
+
+// Fixed fonts under the names the app asks for, so the widths do not depend on the machine.
+// One face per family: bold and italic runs measure like regular ones, on both sides.
+const fontDir = path.join(path.dirname(createRequire(import.meta.url).resolve('dejavu-fonts-ttf/package.json')), 'ttf');
+const FONTS: { [family: string]: string } = {
+  'Times New Roman': 'DejaVuSerif.ttf',
+  'FreeSerifAvvaShenouda': 'DejaVuSans.ttf',
+  'Noto Naskh Arabic': 'DejaVuSansCondensed.ttf',
+  'Cinzel': 'DejaVuSerifCondensed.ttf',
+  'Inter': 'DejaVuSansMono.ttf'
+};
+Object.entries(FONTS).forEach(([family, file]) => GlobalFonts.registerFromPath(path.join(fontDir, file), family));
+
+// TextLayout measures on a canvas from the document
+vi.stubGlobal('document', { createElement: () => createCanvas(1, 1) });
+
+const context = createCanvas(1, 1).getContext('2d');
+
+const VIEWPORTS: [width: number, height: number][] = [[1920, 1080], [1280, 720], [1024, 768], [768, 1024], [390, 844]];
+const FONT_SIZES = [24, 40];
+const MODES: Pagination[] = [{ mode: 'fill' }, { mode: 'rows', rowsPerSlide: 2 }, { mode: 'part' }];
+
+const settingsFor = (fontSize: number, pagination: Pagination): AppSettings => ({
+  fontSize,
+  languages: [Language.ENGLISH, Language.COPTIC, Language.ARABIC, Language.TRANSLITERATED_ENGLISH],
+  liturgicalDate: '2025-01-12',
+  pagination,
+  themeId: 'dark',
+  customThemes: [],
+  presentationMode: false,
+  isFullscreen: false
+});
+
+// A row longer than any slide, with a speaker and a verse number
+const LONG_PART: LiturgicalPart = {
+  id: 'long',
+  type: 'reading',
+  title: { [Language.ENGLISH]: 'The Long Reading' },
+  content: {
+    [Language.ENGLISH]: [
+      Array.from({ length: 120 }, (_, i) => `Blessed be the name of the Lord ${i},`).join(' '),
+      'Amen.'
+    ],
+    [Language.COPTIC]: [
+      Array.from({ length: 60 }, () => 'ⲙⲁⲣⲉϥϣⲱⲡⲓ ⲛ̀ϫⲉ ⲡⲓⲣⲁⲛ ⲙ̀Ⲡ̀ϭⲟⲓⲥ ⲉϥⲥ̀ⲙⲁⲣⲱⲟⲩⲧ').join(' '),
+      'ⲁ̀ⲙⲏⲛ.'
+    ]
+  },
+  roles: { [Language.ENGLISH]: ['priest', 'people'] },
+  rowLabels: ['1', '2']
+};
+
+// Many rows of uneven length, so slides break between rows at every size
+const LITANY_PART: LiturgicalPart = {
+  id: 'litany',
+  type: 'prayer',
+  title: { [Language.ENGLISH]: 'Litany', [Language.ARABIC]: 'أوشية' },
+  content: {
+    [Language.ENGLISH]: Array.from({ length: 24 }, (_, i) =>
+      `Remember, O Lord, ${'the peace of Your one, only, holy, catholic and apostolic Church, '.repeat(i % 4 + 1)}Lord have mercy.`),
+    [Language.COPTIC]: Array.from({ length: 24 }, (_, i) => `${'ⲁ̀ⲣⲓⲫ̀ⲙⲉⲩⲓ Ⲡ̀ϭⲟⲓⲥ ⲉ̀ϯϩⲓⲣⲏⲛⲏ '.repeat(i % 3 + 1)}Ⲕⲩⲣⲓⲉ ⲉ̀ⲗⲉⲏ̀ⲥⲟⲛ.`),
+    [Language.ARABIC]: Array.from({ length: 24 }, (_, i) => `${'اذكر يا رب سلامة كنيستك الواحدة الوحيدة '.repeat(i % 2 + 1)}يا رب ارحم.`),
+    [Language.TRANSLITERATED_ENGLISH]: Array.from({ length: 24 }, () => 'Aripemevi Epchois etiheereenee. Kirie eleison.')
+  },
+  roles: { [Language.ENGLISH]: Array.from({ length: 24 }, (_, i) => (i % 2 ? 'people' : 'deacon') as SpeakerRole) }
+};
+
+const BOOKS: LibraryItem[] = [
+  ...(function collect(items: LibraryItem[]): LibraryItem[] {
+    return items.flatMap(item => item.sections ? [item] : collect(item.children || []));
+  })(INITIAL_DATA),
+  { id: 'long-book', title: 'Long', type: 'book', sections: [{ id: 'long-section', title: 'Long', parts: [LITANY_PART, LONG_PART] }] }
+];
+
+/**
+ * Lines of `text` in a block `width` wide, breaking as a browser does: a word goes on the
+ * line while the whole line, measured as one string, still fits
+ */
+const renderedLines = (text: string, font: string, width: number, indent: number): number => {
+  context.font = font;
+  const words = InlineMarkup.strip(text).split(/\s+/).filter(Boolean);
+  let lines = 1;
+  let line = '';
+  let lineIndent = indent;
+  words.forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && lineIndent + context.measureText(candidate).width > width) {
+      lines++;
+      line = word;
+      lineIndent = 0;
+    } else {
+      line = candidate;
+    }
+  });
+  return lines;
+};
+
+/**
+ * Height of a content slide as the Reader renders it: the part title header, then each row's
+ * primary grid over its secondary grid, with the grid columns of the languages on the slide
+ */
+const renderedHeight = (slide: ComputedSlide, settings: AppSettings, frame: SlideFrame, isMd: boolean): number => {
+  const content = slide.content || {};
+  const fontSize = settings.fontSize * (slide.fontScale || 1);
+  const onSlide = (langs: Language[]) => langs.filter(l => settings.languages.includes(l) && content[l]?.some(t => Boolean(t && t.trim())));
+  const primary = onSlide(PRIMARY_LANGUAGES);
+  const secondary = onSlide(SECONDARY_LANGUAGES);
+  const padding = isMd ? 20 : 12;
+
+  const widths = (langs: Language[], weights: { [key in Language]?: number }) => {
+    const total = langs.reduce((sum, l) => sum + (weights[l] || 1), 0);
+    return langs.map((l, i) => {
+      const share = langs.length <= 1 ? 1 : (weights[l] || 1) / total;
+      const inset = (i > 0 ? padding + 1 : 0) + (i < langs.length - 1 ? padding : 0) + (getLanguageDef(l).fontClass === 'font-coptic' ? 8 : 0);
+      return frame.contentWidth * share - inset;
+    });
+  };
+
+  const cellHeight = (lang: Language, text: string, width: number, lineHeight: number, role: SpeakerRole | null, label: string | null) => {
+    const size = fontSize * getLanguageDef(lang).fontScale;
+    context.font = `700 ${size * 0.55}px 'Inter'`;
+    const indent = label ? context.measureText(label).width + 8 : 0;
+    const lines = renderedLines(text, `${size}px ${getLanguageDef(lang).fontFamily}`, width, indent);
+    return lines * size * lineHeight + (role ? Math.max(10, fontSize * 0.55) * 1.5 + 4 : 0);
+  };
+
+  let height = 0;
+  const titleLangs = settings.languages.filter(l => slide.partTitle?.[l]);
+  if (titleLangs.length > 0) {
+    let lineWidth = 0;
+    let lineHeight = 0;
+    titleLangs.forEach(l => {
+      const size = fontSize * getLanguageDef(l).fontScale * 0.8;
+      const family = SlidePagination.getHeadingFontClass(l) === 'font-cinzel' ? "'Cinzel', serif" : getLanguageDef(l).fontFamily;
+      context.font = `700 ${size}px ${family}`;
+      const text = slide.partTitle![l]!;
+      const width = context.measureText(text).width + text.length * size * 0.025;
+      if (lineWidth > 0 && lineWidth + 32 + width > frame.contentWidth) {
+        height += lineHeight + 4;
+        lineWidth = width;
+        lineHeight = 0;
+      } else {
+        lineWidth += (lineWidth > 0 ? 32 : 0) + width;
+      }
+      lineHeight = Math.max(lineHeight, size * 1.5);
+    });
+    height += lineHeight + 12 + 1 + 32;
+  }
+
+  const rowCount = Math.max(0, ...Object.values(content).map(rows => rows?.length || 0));
+  const primaryWidths = widths(primary, slide.columnWeights || {});
+  const secondaryWidths = widths(secondary, {});
+  for (let r = 0; r < rowCount; r++) {
+    const role = slide.roles?.[r] || null;
+    const label = slide.rowLabels?.[r] || null;
+    const primaryH = Math.max(0, ...primary.map((l, i) => content[l]?.[r] ? cellHeight(l, content[l]![r], primaryWidths[i], 1.35, role, label) : 0));
+    const secondaryH = Math.max(0, ...secondary.map((l, i) => {
+      const text = content[l]?.[r];
+      if (!text) return 0;
+      return cellHeight(l, text, secondaryWidths[i], 1.375, role, primary.length > 0 ? null : label);
+    }));
+    height += (r > 0 ? frame.rowGap : 0) + primaryH + secondaryH + (primary.length > 0 && secondary.length > 0 ? 8 : 0);
+  }
+  return height;
+};
+
+// The slide with the first row of `next` appended, as if the packer had kept it
+const withNextRow = (slide: ComputedSlide, next: ComputedSlide): ComputedSlide => {
+  const content: ComputedSlide['content'] = {};
+  (Object.keys({ ...slide.content, ...next.content }) as Language[]).forEach(l => {
+    const rows = slide.content?.[l] || [];
+    content[l] = [...rows, ...Array(Math.max(0, (slide.roles?.length || 0) - rows.length)).fill(''), next.content?.[l]?.[0] || ''];
+  });
+  return {
+    ...slide,
+    content,
+    roles: [...(slide.roles || []), next.roles?.[0] || null],
+    rowLabels: [...(slide.rowLabels || []), next.rowLabels?.[0] || null]
+  };
+};
+
+describe('SlidePagination against the rendered layout', () => {
+  VIEWPORTS.forEach(([width, height]) => {
+    const isMd = width >= 768;
+    FONT_SIZES.forEach(fontSize => {
+      MODES.forEach(pagination => {
+        const settings = settingsFor(fontSize, pagination);
+        const frame = SlidePagination.frame({ width, height }, isMd, null, fontSize);
+        const slides = BOOKS.flatMap(book => SlidePagination.paginate(book, settings, frame, new Map()));
+        const contentSlides = slides.filter(s => s.type === 'content');
+        const label = `${width}x${height} at ${fontSize}px, ${pagination.mode}${pagination.rowsPerSlide ? ` ${pagination.rowsPerSlide}` : ''}`;
+
+        it(`${label}: every slide fits`, () => {
+          expect(contentSlides.length).toBeGreaterThan(0);
+          contentSlides.forEach(slide => {
+            expect(renderedHeight(slide, settings, frame, isMd), slide.id).toBeLessThanOrEqual(frame.availableHeight + 1);
+          });
+        });
+
+        if (pagination.mode !== 'fill') return;
+
+        it(`${label}: a slide ends only where the next row would overflow`, () => {
+          const samePart = (a: ComputedSlide | undefined, b: ComputedSlide) => a?.sectionId === b.sectionId && a.partIndex === b.partIndex;
+          contentSlides.forEach((slide, i) => {
+            const previous = contentSlides[i - 1];
+            const next = contentSlides[i + 1];
+            if (!next || !samePart(next, slide)) return;
+            // Sub-slides of one split row are cut by words, not rows, and the row after one starts afresh
+            if (next.firstRow === slide.firstRow || (samePart(previous, slide) && previous.firstRow === slide.firstRow)) return;
+            expect(renderedHeight(withNextRow(slide, next), settings, frame, isMd), slide.id).toBeGreaterThan(frame.availableHeight - 1);
+          });
+        });
+      });
+    });
+  });
+
+  it('splits a row taller than the slide across sub-slides', () => {
+    const settings = settingsFor(40, { mode: 'fill' });
+    const frame = SlidePagination.frame({ width: 1280, height: 720 }, true, null, 40);
+    const slides = SlidePagination.paginate(BOOKS[BOOKS.length - 1], settings, frame, new Map()).filter(s => s.type === 'content' && s.partIndex === 1);
+    expect(slides.filter(s => s.firstRow === 0).length).toBeGreaterThan(1);
+    expect(slides[0].roles).toEqual(['priest']);
+    expect(slides[1].roles).toEqual([null]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { Phonetic } from '../services/phonetic.ts';
+import { SearchService } from '../services/searchService.ts';
+import { Language, LibraryItem } from '../types.ts';
+
+// A Coptic word, how an English reader spells it, and how an Arabic reader spells it
+const SPELLINGS: [coptic: string, english: string, arabic: string][] = [
+  ['Ⲧⲉⲛⲟⲩⲱϣⲧ', 'tenouosht', 'تينووشت'],
+  ['Ⲡⲉⲛⲓⲱⲧ', 'peniot', 'بينيوت'],
+  ['Ⲡ̀ϣⲏⲣⲓ', 'epsheeri', 'إبشيري'],
+  ['ⲁ̀ⲙⲏⲛ', 'ameen', 'آمين'],
+  ['Ϧⲉⲛ', 'khen', 'خين'],
+  ['Ⲁⲗⲗⲏⲗⲟⲩⲓⲁ', 'alleluia', 'ألليلويا'],
+  ['ⲑⲁⲙⲓⲟϥ', 'thamiof', 'ثاميوف']
+];
+
+const LIBRARY: LibraryItem[] = [{
+  id: 'doxologies',
+  title: 'Doxologies',
+  type: 'book',
+  sections: [{
+    id: 'doxologies-section',
+    title: 'Section',
+    parts: [
+      { id: 'worship', type: 'hymn', content: { [Language.COPTIC]: ['Ⲧⲉⲛⲟⲩⲱϣⲧ ⲙ̀Ⲫⲓⲱⲧ ⲛⲉⲙ Ⲡ̀ϣⲏⲣⲓ'] } },
+      { id: 'prayer', type: 'hymn', content: { [Language.COPTIC]: ['Ⲡⲉⲛⲓⲱⲧ ⲉⲧϧⲉⲛ ⲛⲓⲫⲏⲟⲩⲓ'] } }
+    ]
+  }]
+}];
+
+const search = (query: string) =>
+  SearchService.search(SearchService.buildIndex(LIBRARY), query).results.map(r => r.partIndex);
+
+describe('Phonetic.key', () => {
+  it.each(SPELLINGS)('gives %s the same key as "%s" and "%s"', (coptic, english, arabic) => {
+    const key = Phonetic.key(coptic);
+    expect(key).not.toBe('');
+    expect(Phonetic.key(english)).toBe(key);
+    expect(Phonetic.key(arabic)).toBe(key);
+  });
+
+  it.each([
+    ['beniot', 'peniot'],
+    ['tamiov', 'thamiof'],
+    ['tenoosht', 'tenouosht'],
+    ['Pikhristos', 'PIKRISTUS'],
+    ['tin ouosht', 'tenouosht']
+  ])('folds "%s" and "%s" together', (a, b) => {
+    expect(Phonetic.key(a)).toBe(Phonetic.key(b));
+  });
+
+  it('drops word-initial vowels', () => {
+    expect(Phonetic.key('ouosht')).toBe('St');
+    expect(Phonetic.key('أوؤشت')).toBe('St');
+  });
+
+  it.each([
+    ['mother', 'Ⲧⲉⲛⲟⲩⲱϣⲧ'],
+    ['nem', 'ⲙⲉⲛ'],
+    ['مريم', 'ⲙⲁⲣⲓⲁ']
+  ])('keeps "%s" apart from %s', (query, coptic) => {
+    const key = Phonetic.key(query);
+    const tolerance = Phonetic.tolerance(key);
+    expect(Phonetic.distance(key, Phonetic.key(coptic), tolerance)).toBeGreaterThan(tolerance);
+  });
+});
+
+describe('Phonetic.distance', () => {
+  it('counts edits, stopping once the limit is passed', () => {
+    expect(Phonetic.distance('piniut', 'piniut', 1)).toBe(0);
+    expect(Phonetic.distance('piniut', 'pinut', 1)).toBe(1);
+    expect(Phonetic.distance('tinuSt', 'tamiup', 2)).toBe(3);
+    expect(Phonetic.distance('kin', 'kinkinkin', 2)).toBe(3);
+  });
+
+  it('tolerates no edits in short keys', () => {
+    expect(Phonetic.tolerance('kin')).toBe(0);
+    expect(Phonetic.tolerance('piniut')).toBe(1);
+    expect(Phonetic.tolerance('pikristus')).toBe(2);
+  });
+});
+
+describe('phonetic search', () => {
+  it.each([
+    ['tenouosht', [0]],
+    ['tin ouosht', [0]],
+    ['تينووشت إبشيري', [0]],
+    ['beniot', [1]],
+    ['بينيوت', [1]]
+  ])('finds the Coptic stanza for "%s"', (query, parts) => {
+    expect(search(query)).toEqual(parts);
+  });
+
+  it.each(['mother', 'maria', 'مريم', 'tenouosht mother'])('finds nothing for "%s"', query => {
+    expect(search(query)).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { ScriptNormalizer } from '../services/scriptNormalizer.ts';
+
+const fold = (text: string) => ScriptNormalizer.normalize(text).text;
+
+describe('ScriptNormalizer.normalize', () => {
+  describe('Coptic and Greek look-alikes', () => it.each([
+    ['ⲠⲒⲞⲨⲰⲒⲚⲒ', 'ⲡⲓⲟⲩⲱⲓⲛⲓ'],
+    ['ϢⲞⲨϮ', 'ϣⲟⲩϯ'],
+    ['Πιωτ', 'ⲡⲓⲱⲧ'],
+    ['ΧΡΙΣΤΟΣ', 'ⲭⲣⲓⲥⲧⲟⲥ'],
+    ['θεος', 'ⲑⲉⲟⲥ'],
+    ['ⲁ̀ⲙⲏⲛ', 'ⲁⲙⲏⲛ'],
+    ['Ⲡ̀ϭⲟⲓⲥ', 'ⲡϭⲟⲓⲥ'],
+    ['ⲓ︦ⲏ︦ⲥ︦', 'ⲓⲏⲥ']
+  ])('%s → %s', (text, folded) => expect(fold(text)).toBe(folded)));
+
+  describe('Arabic', () => it.each([
+    ['أنا', 'انا'],
+    ['إيمان', 'ايمان'],
+    ['آمين', 'امين'],
+    ['ٱلله', 'الله'],
+    ['مؤمن', 'مومن'],
+    ['مُحَمَّدٌ', 'محمد'],
+    ['اللـــه', 'الله'],
+    ['كنيسة', 'كنيسه'],
+    ['على', 'علي']
+  ])('%s → %s', (text, folded) => expect(fold(text)).toBe(folded)));
+
+  it('folds case, Latin accents and whitespace', () => {
+    expect(fold('  Élève\n\tÀ  la Maison')).toBe('eleve a la maison');
+    expect(ScriptNormalizer.normalizeQuery(' Kyrie  ')).toBe('kyrie');
+  });
+
+  it('is idempotent', () => {
+    ['Ⲡ̀ϭⲟⲓⲥ ⲛⲁⲓ ⲛⲁⲛ', 'Πιωτ', 'أَشْهَدُ أَنْ لَا إِلٰهَ', 'اللـــه', 'Élève  À', 'ⲓ︦ⲏ︦ⲥ︦ Χριστός'].forEach(text => {
+      expect(fold(fold(text))).toBe(fold(text));
+    });
+  });
+
+  it('maps matches back onto the original text, marks included', () => {
+    const source = ScriptNormalizer.normalize('ⲛⲉⲙ ⲁ̀ⲙⲏⲛ');
+    expect(ScriptNormalizer.findMatches(source, 'ⲁⲙ')).toEqual([{ start: 4, end: 7 }]);
+    const arabic = ScriptNormalizer.normalize('قُدُّوس قدوس');
+    expect(ScriptNormalizer.findMatches(arabic, 'قدوس')).toEqual([{ start: 0, end: 7 }, { start: 8, end: 12 }]);
+  });
+});
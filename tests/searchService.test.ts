@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { SearchService } from '../services/searchService.ts';
+import { Language, LibraryItem, LiturgicalPart } from '../types.ts';
+
+const part = (id: string, english: string[], extra: Partial<LiturgicalPart> = {}): LiturgicalPart =>
+  ({ id, type: 'prayer', content: { [Language.ENGLISH]: english }, ...extra });
+
+const book = (id: string, parts: LiturgicalPart[]): LibraryItem =>
+  ({ id, title: id, type: 'book', sections: [{ id: `${id}-section`, title: 'Section', parts }] });
+
+const LIBRARY: LibraryItem[] = [
+  book('vespers', [
+    part('far', ['Glory to the Father, now and ever and unto the ages, and to the Son']),
+    part('near', ['We worship the Father and the Son']),
+    part('titled', ['Amen.'], { title: { [Language.ENGLISH]: 'Father and Son' } })
+  ]),
+  book('liturgy', [
+    part('gospel', ['For God so loved the world'], { type: 'reading', scripture: 'Jn 3:16-21' }),
+    part('psalm', ['Have mercy upon me, O God'], { type: 'reading', scripture: 'Ps 50:1-5' }),
+    part('blessing', ['The grace of our Lord Jesus Christ'])
+  ])
+];
+
+const search = (query: string, library = LIBRARY) =>
+  SearchService.search(SearchService.buildIndex(library), query).results.map(r => `${r.bookId}/${r.partIndex}`);
+
+describe('SearchService', () => {
+  it('needs every word, ranking titles first and then words close together', () => {
+    expect(search('father son')).toEqual(['vespers/2', 'vespers/1', 'vespers/0']);
+    expect(search('father mercy')).toEqual([]);
+  });
+
+  it('matches the start of words', () => {
+    expect(search('wors')).toEqual(['vespers/1']);
+    expect(search('lov wor')).toEqual(['liturgy/0']);
+    expect(search('orld')).toEqual([]);
+  });
+
+  it('reads a scripture citation and finds the parts citing those verses', () => {
+    const index = SearchService.buildIndex(LIBRARY);
+    const page = SearchService.search(index, 'John 3:16');
+    expect(page.results.map(r => `${r.bookId}/${r.partIndex}`)).toEqual(['liturgy/0']);
+    expect(page.results[0].citation).toBe('Jn 3:16-21');
+    expect(SearchService.search(index, 'Psalm 50:3').results.map(r => r.citation)).toEqual(['Ps 50:1-5']);
+    expect(SearchService.search(index, 'Jn 4:1').results).toEqual([]);
+  });
+
+  it('highlights the matched words in the snippet', () => {
+    const [result] = SearchService.search(SearchService.buildIndex(LIBRARY), '"our lord"').results;
+    expect(result.matches!.map(m => result.textSnippet.slice(m.start, m.end))).toEqual(['our Lord']);
+  });
+
+  it('reflects the library it was last built from', () => {
+    expect(search('mercy')).toEqual(['liturgy/1']);
+    const edited = LIBRARY.map(item => item.id !== 'liturgy' ? item : book('liturgy', [
+      part('psalm', ['Have compassion upon me, O God'], { type: 'reading', scripture: 'Ps 50:1-5' }),
+      part('kyrie', ['Lord have mercy'])
+    ]));
+    expect(search('mercy', edited)).toEqual(['liturgy/1']);
+    expect(search('compassion', edited)).toEqual(['liturgy/0']);
+    expect(search('grace', edited)).toEqual([]);
+  });
+});
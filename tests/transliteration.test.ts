@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { Transliterator } from '../services/transliteration.ts';
+import { Language, LiturgicalPart } from '../types.ts';
+
+// Hymn lines as the Reader shows them: Coptic, then the English and Arabic transliteration
+const GOLDEN: [coptic: string, english: string, arabic: string][] = [
+  [
+    'Ϧⲉⲛ ⲫ̀ⲣⲁⲛ ⲙ̀Ⲫⲓⲱⲧ ⲛⲉⲙ Ⲡ̀ϣⲏⲣⲓ ⲛⲉⲙ Ⲡⲓⲡⲛⲉⲩⲙⲁ Ⲉⲑⲟⲩⲁⲃ ⲟⲩⲛⲟⲩϯ ⲛ̀ⲟⲩⲱⲧ: ⲁ̀ⲙⲏⲛ.',
+    'Khen ephran emphiot nem Epsheeri nem Pipnevma Ethouav ounouti enouot: ameen.',
+    'خين إفران إمفيوت نيم إبشيري نيم بيبنيفما إثواف أونوتي إنووت: آمين.'
+  ],
+  [
+    'Ⲡⲉⲛⲓⲱⲧ ⲉⲧϧⲉⲛ ⲛⲓⲫⲏⲟⲩⲓ',
+    'Peniot etkhen nipheeoui',
+    'بينيوت إتخين نيفيوي'
+  ],
+  [
+    'Ⲡⲭⲥ ⲁϥⲧⲱⲛϥ ⲉ̀ⲃⲟⲗϧⲉⲛ ⲛⲏⲉⲑⲙⲱⲟⲩⲧ',
+    'Pikhristos aftonf evolkhen neeetmoout',
+    'بخريستوس أفتونف إفولخين نييتمووت'
+  ],
+  [
+    'Ⲁⲗⲗⲏⲗⲟⲩⲓⲁ ⲫⲁⲓ ⲡⲉ ⲡⲓⲉ̀ϩⲟⲟⲩ ⲉ̀ⲧⲁ Ⲡ̀ϭⲟⲓⲥ ⲑⲁⲙⲓⲟϥ',
+    'Alleelouia phai pe piehoou eta Epchois thamiof',
+    'ألليلويا فاي بي بييهوو إتا إبتشويس ثاميوف'
+  ],
+  [
+    'Ⲧⲉⲛⲟⲩⲱϣⲧ ⲙ̀Ⲫⲓⲱⲧ ⲛⲉⲙ Ⲡ̀ϣⲏⲣⲓ',
+    'Tenouosht emphiot nem Epsheeri',
+    'تينووشت إمفيوت نيم إبشيري'
+  ],
+  ['Ⲭⲉⲣⲉ ⲛⲉ Ⲙⲁⲣⲓⲁ', 'Shere ne Maria', 'شيري ني ماريا'],
+  ['Ⲁⲅⲓⲟⲥ ⲟ̀ Ⲑⲉⲟⲥ', 'Agios o Theos', 'أجيوس أو ثيوس'],
+  ['Ⲁⲅⲅⲉⲗⲟⲥ ⲛ̀ⲧⲉ Ⲫϯ', 'Angelos ente Efnouti', 'أنجيلوس إنتي إفنوتي'],
+  ['ϫⲉ ⲁϥϫⲱⲕ ⲉ̀ⲃⲟⲗ ⲛ̀ϫⲉ ⲡⲓϫⲟⲙ', 'je afgok evol enje pigom', 'چي أفجوك إفول إنچي بيجوم']
+];
+
+describe('Transliterator golden set', () => {
+  it.each(GOLDEN)('%s', (coptic, english, arabic) => {
+    expect(Transliterator.copticToEnglish(coptic)).toBe(english);
+    expect(Transliterator.copticToArabic(coptic)).toBe(arabic);
+  });
+});
+
+describe('Transliterator context rules', () => {
+  const cases = (rules: [string, string, string][]) => it.each(rules)('%s', (coptic, english, arabic) => {
+    expect(Transliterator.copticToEnglish(coptic)).toBe(english);
+    expect(Transliterator.copticToArabic(coptic)).toBe(arabic);
+  });
+
+  describe('Ⲡ and Ϭ', () => cases([
+    ['ⲡⲓⲱⲧ', 'piot', 'بيوت'],
+    ['Ⲡⲁⲓ', 'Pai', 'باي'],
+    ['ϭⲟⲙ', 'chom', 'تشوم'],
+    ['ⲡⲓϭⲓⲥⲓ', 'pichisi', 'بيتشيسي']
+  ]));
+
+  describe('Ⲑ is aspirated only before a vowel', () => cases([
+    ['ⲑⲉⲟⲥ', 'theos', 'ثيوس'],
+    ['ⲛ̀ⲑⲟⲕ', 'enthok', 'إنثوك'],
+    ['ⲙⲉⲑⲙⲏⲓ', 'metmeei', 'ميتميي'],
+    ['ⲉⲑⲛⲁ', 'etna', 'إتنا']
+  ]));
+
+  describe('jinkim', () => cases([
+    ['ⲡ̀ⲛⲟⲩϯ', 'epnouti', 'إبنوتي'],
+    ['ⲙ̀ⲙⲟⲛ', 'emmon', 'إممون'],
+    ['ⲛ̀ⲧⲉ', 'ente', 'إنتي'],
+    ['ⲁ̀ⲛⲟⲕ', 'anok', 'آنوك'],
+    ['ⲉ̀ⲃⲟⲗ', 'evol', 'إفول']
+  ]));
+
+  describe('ⲟⲩ and other digraphs', () => cases([
+    ['ⲟⲩⲟⲛ', 'ouon', 'أوون'],
+    ['ⲛⲟⲩ', 'nou', 'نو'],
+    ['ⲥⲟⲩⲣⲟ', 'souro', 'سورو'],
+    ['ⲁⲩⲱ', 'avo', 'أفو'],
+    ['ⲉⲓ', 'i', 'إي']
+  ]));
+
+  describe('Ϫ and Ⲭ soften before front vowels', () => cases([
+    ['ϫⲉ', 'je', 'چي'],
+    ['ϫⲓ', 'ji', 'چي'],
+    ['ϫⲟⲙ', 'gom', 'جوم'],
+    ['ⲭⲉⲣⲉ', 'shere', 'شيري'],
+    ['ⲭⲣⲓⲥⲧⲟⲥ', 'khristos', 'خريستوس']
+  ]));
+
+  describe('punctuation and markup', () => cases([
+    ['ⲁ?', 'a?', 'أ؟'],
+    ['ⲟⲩ,ⲟⲩ;', 'ou,ou;', 'أو،أو؛'],
+    ['{r:ⲁ̀ⲙⲏⲛ}', '{r:ameen}', '{r:آمين}']
+  ]));
+});
+
+describe('Transliterator.fillPart', () => {
+  it('fills missing stanzas from the Coptic and flags them', () => {
+    const part: LiturgicalPart = {
+      id: 'p',
+      type: 'hymn',
+      content: {
+        [Language.COPTIC]: ['ⲁ̀ⲙⲏⲛ', 'ⲁⲗⲗⲏⲗⲟⲩⲓⲁ'],
+        [Language.TRANSLITERATED_ENGLISH]: ['Amen']
+      }
+    };
+    Transliterator.fillPart(part);
+    expect(part.content[Language.TRANSLITERATED_ENGLISH]).toEqual(['Amen', 'alleelouia']);
+    expect(part.content[Language.TRANSLITERATED_ARABIC]).toEqual(['آمين', 'ألليلويا']);
+    expect(part.generated).toEqual({
+      [Language.TRANSLITERATED_ENGLISH]: [false, true],
+      [Language.TRANSLITERATED_ARABIC]: [true, true]
+    });
+  });
+});
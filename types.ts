@@ -1,10 +1,68 @@
 
-export enum Language {
-  ENGLISH = 'EN',
-  COPTIC = 'COP',
-  ARABIC = 'AR',
-  TRANSLITERATED_ENGLISH = 'TRAN-EN',
-  TRANSLITERATED_ARABIC = 'TRAN-AR'
+/**
+ * A language code as written in the text format tags ([EN], [COP], ...).
+ * The full set is defined by LANGUAGE_REGISTRY in constants.tsx; the built-in codes are named here for convenience.
+ */
+export type Language = string;
+
+export const Language = {
+  ENGLISH: 'EN',
+  COPTIC: 'COP',
+  ARABIC: 'AR',
+  TRANSLITERATED_ENGLISH: 'TRAN-EN',
+  TRANSLITERATED_ARABIC: 'TRAN-AR'
+} as const;
+
+export interface LanguageDefinition {
+  code: Language;
+  name: string;
+  direction: 'ltr' | 'rtl';
+  fontFamily: string; // CSS font stack
+  fontClass: string; // Utility class carrying the same stack (see index.css)
+  fontScale: number; // Multiplier applied to the base font size
+  widthFootprint: number; // Relative column width weight when balancing columns
+  role: 'primary' | 'secondary'; // Primary texts sit side by side; secondary (transliterations) sit beneath
+  defaultVisible: boolean;
+  roleLabels?: { priest: string; deacon: string; people: string };
+}
+
+export type SpeakerRole = 'priest' | 'deacon' | 'people';
+
+// A stretch of stanza text sharing one set of inline styles
+export interface InlineRun {
+  text: string;
+  bold?: boolean; // **bold**
+  rubric?: boolean; // {r:rubric}
+  refrain?: boolean; // {refrain:text}, or everything after a bare {refrain}
+}
+
+// An "@if season=..." block: holds on days in any of `seasons`, or in none of them when negated
+export interface SeasonCondition {
+  seasons: string[];
+  negate?: boolean;
+}
+
+// Services the bundled lectionary has readings for; Vespers and Matins join once their table is filled in
+export type LectionaryService = 'liturgy';
+
+export type ReadingKind = 'pauline' | 'catholic' | 'praxis' | 'psalm' | 'gospel';
+
+export interface VerseRange {
+  startChapter: number;
+  startVerse: number;
+  endChapter: number;
+  endVerse: number; // Inclusive
+}
+
+export interface ScriptureReference {
+  book: string; // Canonical code, e.g. "Ps", "1 Cor", "Jn"
+  ranges: VerseRange[];
+}
+
+export interface PartReference {
+  bookId: string;
+  sectionId: string;
+  partId: string;
 }
 
 export interface LiturgicalPart {
@@ -16,12 +74,34 @@ export interface LiturgicalPart {
   content: {
     [key in Language]?: string[];
   };
+  roles?: {
+    [key in Language]?: (SpeakerRole | null)[]; // Parallel to content; trailing nulls may be omitted
+  };
+  includedFrom?: PartReference; // Set on parts embedded via @include, pointing at the original
+  readings?: LectionaryService; // Set on @readings placeholders; the Reader expands them for the chosen date
+  scripture?: string; // Canonical reference of an @scripture part, whose content comes from the Bible texts
+  rowLabels?: string[]; // One per row, e.g. the verse numbers of an @scripture part
+  conditions?: SeasonCondition[]; // The part is shown only on days where all of these hold
+  rowConditions?: {
+    [key in Language]?: (SeasonCondition[] | null)[]; // Parallel to content, for stanzas inside an @if block
+  };
+  generated?: {
+    [key in Language]?: boolean[]; // Parallel to content; true for stanzas transliterated automatically from the Coptic
+  };
+}
+
+// How parts are cut into slides: as many rows as fit ('fill'), one row or `rowsPerSlide`
+// rows at a time ('row', 'rows'), or each part whole with its font shrunk to fit ('part')
+export interface Pagination {
+  mode: 'fill' | 'row' | 'rows' | 'part';
+  rowsPerSlide?: number; // For 'rows'
 }
 
 export interface LiturgySection {
   id: string;
   title: string;
   parts: LiturgicalPart[];
+  pagination?: Pagination; // From @slides; overrides the setting for this section
 }
 
 export interface LibraryItem {
@@ -32,9 +112,114 @@ export interface LibraryItem {
   sections?: LiturgySection[]; // For books
 }
 
+// Which slide is showing, in terms that survive re-pagination at another size or in another window
+export interface SlidePosition {
+  sectionId: string;
+  partIndex: number; // -1 on a section's title slide
+  partKey?: string; // Tells apart the readings one @readings part expands to
+  subSlideIndex: number;
+  firstRow?: number; // Row of the part the slide starts at, to line up slides paginated at different sizes
+  isTitle: boolean;
+}
+
+// A strip of the screen that slides are laid out in instead of the whole of it, as for a livestream lower third
+export interface SlideBand {
+  position: 'top' | 'bottom';
+  maxLines: number; // Lines of text at the base font size; sets the strip's height
+}
+
+// A move requested from outside the Reader, such as a phone remote; `id` tells repeated moves apart
+export interface SlideStep {
+  id: number;
+  step: number; // Slides forward, or back if negative
+}
+
+// One page of the Reader's pagination of a book
+export interface ComputedSlide {
+  id: string;
+  type: 'title' | 'content';
+  sectionTitle: string;
+  sectionId: string;
+  partIndex: number;
+  partKey?: string; // The part index, with ".<n>" for the n-th further reading a @readings part expands to
+  subSlideIndex: number;
+  totalSubSlides: number;
+  firstRow: number; // Row of the part the slide starts at
+  content?: { [key in Language]?: string[] };
+  roles?: (SpeakerRole | null)[];
+  rowLabels?: (string | null)[];
+  generated?: { [key in Language]?: boolean[] }; // Cells transliterated automatically, styled apart from hand-written text
+  partType?: LiturgicalPart['type'];
+  partTitle?: LiturgicalPart['title']; // Only set on the first sub-slide of a part
+  columnWeights?: { [key in Language]?: number }; // Relative widths of the primary columns, shared by the part's sub-slides
+  fontScale?: number; // Below 1 where a whole part was shrunk to fit the slide
+  slideIndex: number;
+  totalSlidesInSection: number;
+}
+
+// Colors are any CSS color; the Reader, the header and the sidebar read them through CSS variables
+export interface Theme {
+  id: string;
+  name: string;
+  background: string;
+  panel: string; // Header, sidebar and the cards over the slide
+  text: string; // Primary texts
+  secondaryText: string; // Transliterations
+  accent: string; // Headings, refrains and highlights
+  divider: string; // Rules between columns
+  rubric: string; // Rubrics and red runs in the text
+  priest: string; // Speaker labels
+  deacon: string;
+  people: string;
+  backgroundImage?: string; // URL of an image covering the slide background
+}
+
 export interface AppSettings {
   fontSize: number;
   languages: Language[];
+  liturgicalDate: string | null; // YYYY-MM-DD picked in the header; null follows today
+  pagination: Pagination; // Unless a section sets its own with @slides
+  themeId: string;
+  customThemes: Theme[]; // Made by the user, alongside THEME_PRESETS
   presentationMode: boolean;
   isFullscreen: boolean;
 }
+
+export interface CopticDate {
+  year: number; // Anno Martyrum
+  month: number; // 1-13, where 13 is the short month of Pi Kogi Enavot
+  day: number;
+  monthName: string;
+}
+
+export interface MoveableFeasts {
+  jonahFast: Date; // Monday; the fast lasts three days, followed by Jonah's Passover
+  greatLent: Date; // Monday of the first week
+  palmSunday: Date;
+  pascha: Date;
+  ascension: Date;
+  pentecost: Date;
+}
+
+export interface ParseDiagnostic {
+  severity: 'error' | 'warning';
+  line: number; // 1-based
+  column: number; // 1-based
+  message: string;
+}
+
+export interface AlignmentIssue {
+  bookTitle: string;
+  sectionTitle: string;
+  partId: string;
+  line: number; // Where the part starts in the source text
+  rowCounts: {
+    [key in Language]?: number;
+  };
+}
+
+export interface ParseResult {
+  library: LibraryItem[];
+  diagnostics: ParseDiagnostic[];
+  alignment: AlignmentIssue[]; // Parts whose languages have different row counts
+}